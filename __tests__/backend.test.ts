@@ -0,0 +1,89 @@
+import { CacheEntry, findCacheEntry } from "../src/backends/backend";
+import { getCacheBackend } from "../src/backends/backendFactory";
+import { DiskCacheBackend } from "../src/backends/diskCacheBackend";
+import { GitHubCacheBackend } from "../src/backends/githubBackend";
+import { LocalCacheBackend } from "../src/backends/localBackend";
+import { S3CacheBackend } from "../src/backends/s3Backend";
+import { Inputs } from "../src/constants";
+import * as testUtils from "../src/utils/testUtils";
+
+afterEach(() => {
+    testUtils.clearInputs();
+});
+
+const entries: CacheEntry[] = [
+    { key: "npm-linux-a", createdAt: new Date("2024-01-01") },
+    { key: "npm-linux-b", createdAt: new Date("2024-03-01") },
+    { key: "npm-linux-bc", createdAt: new Date("2024-02-01") },
+    { key: "npm-windows-a", createdAt: new Date("2024-04-01") }
+];
+
+test("findCacheEntry prefers an exact match over newer prefix matches", () => {
+    expect(findCacheEntry(entries, "npm-linux-b")?.key).toBe("npm-linux-b");
+});
+
+test("findCacheEntry picks the newest prefix match", () => {
+    expect(findCacheEntry(entries, "npm-linux-")?.key).toBe("npm-linux-b");
+});
+
+test("findCacheEntry falls back to restore keys in order", () => {
+    expect(
+        findCacheEntry(entries, "npm-macos-a", ["npm-linux-a", "npm-"])?.key
+    ).toBe("npm-linux-a");
+    expect(findCacheEntry(entries, "pip-", ["yarn-"])).toBeUndefined();
+});
+
+test("getCacheBackend defaults to the Actions cache service", () => {
+    expect(getCacheBackend()).toBeInstanceOf(GitHubCacheBackend);
+});
+
+test("getCacheBackend creates a local backend for a directory", () => {
+    testUtils.setInput(Inputs.Backend, "local");
+    testUtils.setInput(Inputs.LocalPath, "/mnt/cache");
+
+    const backend = getCacheBackend();
+    expect(backend).toBeInstanceOf(LocalCacheBackend);
+    expect((backend as LocalCacheBackend).directory).toBe("/mnt/cache");
+});
+
+test("getCacheBackend creates an S3 backend for a bucket", () => {
+    testUtils.setInput(Inputs.Backend, "s3");
+    testUtils.setInput(Inputs.S3Bucket, "ci-cache");
+    testUtils.setInput(Inputs.S3Prefix, "caches/");
+    testUtils.setInput(Inputs.S3Endpoint, "http://localhost:9000");
+    testUtils.setInput(Inputs.S3AccessKeyId, "minio");
+    testUtils.setInput(Inputs.S3SecretAccessKey, "minio123");
+
+    const backend = getCacheBackend() as S3CacheBackend;
+    expect(backend).toBeInstanceOf(S3CacheBackend);
+    expect(backend.bucket).toBe("ci-cache");
+    expect(backend.prefix).toBe("caches/");
+});
+
+test("getCacheBackend keeps entries on the runner with a disk cache path", () => {
+    testUtils.setInput(Inputs.DiskCachePath, "/var/cache/actions");
+    testUtils.setInput(Inputs.DiskCacheMaxSize, "10GB");
+
+    const backend = getCacheBackend();
+    expect(backend).toBeInstanceOf(DiskCacheBackend);
+    expect(backend.type).toBe("github");
+});
+
+test("getCacheBackend validates its inputs", () => {
+    testUtils.setInput(Inputs.Backend, "local");
+    expect(() => getCacheBackend()).toThrow(
+        "Input required and not supplied: local-path"
+    );
+
+    testUtils.setInput(Inputs.Backend, "s3");
+    testUtils.setInput(Inputs.S3Bucket, "ci-cache");
+    testUtils.setInput(Inputs.S3AccessKeyId, "minio");
+    expect(() => getCacheBackend()).toThrow(
+        "Input required and not supplied: s3-secret-access-key"
+    );
+
+    testUtils.setInput(Inputs.Backend, "ftp");
+    expect(() => getCacheBackend()).toThrow(
+        "Input Validation Error: backend must be one of github, local, s3."
+    );
+});
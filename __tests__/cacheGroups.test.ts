@@ -0,0 +1,108 @@
+import * as core from "@actions/core";
+
+import { Inputs } from "../src/constants";
+import { getCacheGroups, getGroupOutputName } from "../src/utils/cacheGroups";
+import * as testUtils from "../src/utils/testUtils";
+
+jest.mock("@actions/core");
+
+beforeAll(() => {
+    jest.spyOn(core, "getInput").mockImplementation((name, options) => {
+        return jest.requireActual("@actions/core").getInput(name, options);
+    });
+});
+
+afterEach(() => {
+    testUtils.clearInputs();
+});
+
+test("getCacheGroups returns undefined if caches input is not set", () => {
+    expect(getCacheGroups()).toBeUndefined();
+});
+
+test("getCacheGroups parses paths and restore keys as lists or multiline strings", () => {
+    testUtils.setInput(
+        Inputs.Caches,
+        JSON.stringify([
+            {
+                id: "npm",
+                key: "npm-linux-abc",
+                path: "~/.npm\n node_modules \n",
+                "restore-keys": ["npm-linux-"]
+            },
+            {
+                key: "pip-linux-abc",
+                path: ["~/.cache/pip", "! ~/.cache/pip/http"]
+            }
+        ])
+    );
+
+    expect(getCacheGroups()).toEqual([
+        {
+            id: "npm",
+            key: "npm-linux-abc",
+            paths: ["~/.npm", "node_modules"],
+            restoreKeys: ["npm-linux-"]
+        },
+        {
+            id: "1",
+            key: "pip-linux-abc",
+            paths: ["~/.cache/pip", "!~/.cache/pip/http"],
+            restoreKeys: []
+        }
+    ]);
+});
+
+test("getCacheGroups throws on invalid JSON", () => {
+    testUtils.setInput(Inputs.Caches, "- key: npm");
+
+    expect(() => getCacheGroups()).toThrow(
+        /^Input Validation Error: caches must be a JSON list of cache groups\./
+    );
+});
+
+test("getCacheGroups throws on an empty list", () => {
+    testUtils.setInput(Inputs.Caches, "[]");
+
+    expect(() => getCacheGroups()).toThrow(
+        "Input Validation Error: caches must be a non-empty JSON list of cache groups."
+    );
+});
+
+test("getCacheGroups throws on duplicate or invalid ids", () => {
+    testUtils.setInput(
+        Inputs.Caches,
+        JSON.stringify([
+            { id: "npm", key: "a", path: "a" },
+            { id: "npm", key: "b", path: "b" }
+        ])
+    );
+    expect(() => getCacheGroups()).toThrow(
+        "Input Validation Error: cache group id npm is used more than once."
+    );
+
+    testUtils.setInput(
+        Inputs.Caches,
+        JSON.stringify([{ id: "n p m", key: "a", path: "a" }])
+    );
+    expect(() => getCacheGroups()).toThrow(
+        "Input Validation Error: cache group id n p m may only contain letters, digits, '-' and '_'."
+    );
+});
+
+test("getCacheGroups throws if a group has no key or path", () => {
+    testUtils.setInput(Inputs.Caches, JSON.stringify([{ path: "a" }]));
+    expect(() => getCacheGroups()).toThrow(
+        "Input Validation Error: cache group 0 does not specify a key."
+    );
+
+    testUtils.setInput(Inputs.Caches, JSON.stringify([{ key: "a" }]));
+    expect(() => getCacheGroups()).toThrow(
+        "Input Validation Error: cache group 0 does not specify a path."
+    );
+});
+
+test("getGroupOutputName suffixes the group id", () => {
+    expect(getGroupOutputName("cache-hit", "npm")).toBe("cache-hit-npm");
+    expect(getGroupOutputName("cache-hit", "")).toBe("cache-hit");
+});
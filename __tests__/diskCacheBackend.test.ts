@@ -0,0 +1,206 @@
+import { CompressionMethod } from "@actions/cache/lib/internal/constants";
+
+import * as archiveUtils from "../src/backends/archive";
+import {
+    BackendType,
+    CacheEntry,
+    IArchiveBackend
+} from "../src/backends/backend";
+import { DiskCacheBackend } from "../src/backends/diskCacheBackend";
+
+jest.mock("../src/backends/archive");
+
+const paths = ["node_modules"];
+const archive: archiveUtils.Archive = {
+    archivePath: "/tmp/archive/cache.tzst",
+    compressionMethod: CompressionMethod.Zstd,
+    version: "1234",
+    sizeInBytes: 1024
+};
+
+function createBackend(type: BackendType): jest.Mocked<IArchiveBackend> {
+    return {
+        type,
+        isAvailable: jest.fn().mockReturnValue(true),
+        restore: jest.fn().mockResolvedValue(undefined),
+        save: jest.fn().mockResolvedValue(1),
+        lookup: jest.fn().mockResolvedValue(undefined),
+        canDelete: jest.fn().mockReturnValue(true),
+        delete: jest.fn().mockResolvedValue(true),
+        list: jest.fn().mockResolvedValue([]),
+        describe: jest.fn().mockResolvedValue(undefined),
+        findEntries: jest.fn().mockResolvedValue([]),
+        downloadArchive: jest.fn().mockResolvedValue(undefined),
+        uploadArchive: jest.fn().mockResolvedValue(1)
+    };
+}
+
+let remote: jest.Mocked<IArchiveBackend>;
+let disk: jest.Mocked<IArchiveBackend>;
+
+beforeEach(() => {
+    jest.mocked(archiveUtils.createArchive).mockResolvedValue(archive);
+    remote = createBackend(BackendType.GitHub);
+    disk = createBackend(BackendType.Local);
+});
+
+test("disk cache restores an exact match from the disk", async () => {
+    disk.lookup.mockResolvedValue("node-abc");
+    disk.restore.mockResolvedValue("node-abc");
+    const backend = new DiskCacheBackend(remote, disk);
+
+    expect(await backend.restore(paths, "node-abc", ["node-"])).toBe(
+        "node-abc"
+    );
+    expect(backend.diskCacheHit).toBe(true);
+    expect(disk.restore).toHaveBeenCalledWith(
+        paths,
+        "node-abc",
+        [],
+        undefined,
+        undefined
+    );
+    expect(remote.lookup).not.toHaveBeenCalled();
+    expect(remote.restore).not.toHaveBeenCalled();
+});
+
+test("disk cache restores a prefix match from the disk unless the other backend has an exact match", async () => {
+    disk.lookup.mockResolvedValue("node-old");
+    disk.restore.mockResolvedValue("node-old");
+    const backend = new DiskCacheBackend(remote, disk);
+
+    expect(await backend.restore(paths, "node-abc", ["node-"])).toBe(
+        "node-old"
+    );
+    expect(backend.diskCacheHit).toBe(true);
+
+    remote.lookup.mockResolvedValue("node-abc");
+    remote.downloadArchive.mockResolvedValue({ key: "node-abc", archive });
+    expect(await backend.restore(paths, "node-abc", ["node-"])).toBe(
+        "node-abc"
+    );
+    expect(backend.diskCacheHit).toBe(false);
+    expect(disk.uploadArchive).toHaveBeenCalledWith(
+        paths,
+        "node-abc",
+        archive,
+        undefined,
+        undefined
+    );
+});
+
+test("disk cache copies the archive restored from the other backend to the disk", async () => {
+    remote.downloadArchive.mockResolvedValue({ key: "node-abc", archive });
+    const backend = new DiskCacheBackend(remote, disk);
+
+    expect(await backend.restore(paths, "node-abc", [], undefined, true)).toBe(
+        "node-abc"
+    );
+    expect(backend.diskCacheHit).toBe(false);
+    expect(archiveUtils.extractArchive).toHaveBeenCalledWith(
+        archive.archivePath,
+        archive.compressionMethod
+    );
+    expect(disk.delete).toHaveBeenCalledWith("node-abc");
+    expect(disk.uploadArchive).toHaveBeenCalledWith(
+        paths,
+        "node-abc",
+        archive,
+        undefined,
+        true
+    );
+    expect(disk.save).not.toHaveBeenCalled();
+    expect(archiveUtils.removeArchive).toHaveBeenCalledWith(
+        archive.archivePath
+    );
+
+    remote.restore.mockResolvedValue("node-abc");
+    disk.uploadArchive.mockClear();
+    await backend.restore(paths, "node-abc", [], { lookupOnly: true });
+    expect(remote.restore).toHaveBeenCalled();
+    expect(disk.uploadArchive).not.toHaveBeenCalled();
+});
+
+test("disk cache treats errors of the other backend as a cache miss when restoring", async () => {
+    remote.downloadArchive.mockRejectedValue(new Error("Service unavailable"));
+    const backend = new DiskCacheBackend(remote, disk);
+
+    expect(await backend.restore(paths, "node-abc")).toBeUndefined();
+    expect(disk.uploadArchive).not.toHaveBeenCalled();
+});
+
+test("disk cache archives saved entries once for both backends", async () => {
+    const backend = new DiskCacheBackend(remote, disk);
+
+    expect(await backend.save(paths, "node-abc", undefined, true)).toBe(1);
+    expect(archiveUtils.createArchive).toHaveBeenCalledTimes(1);
+    expect(archiveUtils.createArchive).toHaveBeenCalledWith(paths, true);
+    expect(remote.uploadArchive).toHaveBeenCalledWith(
+        paths,
+        "node-abc",
+        archive,
+        undefined,
+        true
+    );
+    expect(disk.uploadArchive).toHaveBeenCalledWith(
+        paths,
+        "node-abc",
+        archive,
+        undefined,
+        true
+    );
+    expect(remote.save).not.toHaveBeenCalled();
+    expect(disk.save).not.toHaveBeenCalled();
+    expect(archiveUtils.removeArchive).toHaveBeenCalledWith(
+        archive.archivePath
+    );
+
+    remote.uploadArchive.mockRejectedValue(new Error("Unable to reserve"));
+    disk.uploadArchive.mockClear();
+    await expect(backend.save(paths, "node-def")).rejects.toThrow(
+        "Unable to reserve"
+    );
+    expect(disk.uploadArchive).not.toHaveBeenCalled();
+});
+
+test("disk cache does not fail when copying to the disk fails", async () => {
+    disk.uploadArchive.mockRejectedValue(new Error("No space left on device"));
+    const backend = new DiskCacheBackend(remote, disk);
+
+    expect(await backend.save(paths, "node-abc")).toBe(1);
+});
+
+test("disk cache removes the least recently used entries over the max size", async () => {
+    const entries: CacheEntry[] = [
+        {
+            key: "node-a",
+            sizeInBytes: 40,
+            lastAccessedAt: new Date("2024-01-03")
+        },
+        {
+            key: "node-b",
+            sizeInBytes: 40,
+            lastAccessedAt: new Date("2024-01-01")
+        },
+        {
+            key: "node-c",
+            sizeInBytes: 40,
+            lastAccessedAt: new Date("2024-01-02")
+        }
+    ];
+    disk.list.mockResolvedValue(entries);
+    const backend = new DiskCacheBackend(remote, disk, 100);
+
+    await backend.save(paths, "node-a");
+
+    expect(disk.delete).toHaveBeenCalledWith("node-b");
+    expect(disk.delete).not.toHaveBeenCalledWith("node-c");
+});
+
+test("disk cache deletes entries from both backends", async () => {
+    const backend = new DiskCacheBackend(remote, disk);
+
+    expect(await backend.delete("node-abc")).toBe(true);
+    expect(disk.delete).toHaveBeenCalledWith("node-abc");
+    expect(remote.delete).toHaveBeenCalledWith("node-abc");
+});
@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { Inputs } from "../src/constants";
+import { CacheEventType, logEvent } from "../src/utils/eventLog";
+import * as testUtils from "../src/utils/testUtils";
+
+let directory: string;
+
+function readEvents(eventLog: string): Record<string, unknown>[] {
+    return fs
+        .readFileSync(eventLog, "utf8")
+        .trim()
+        .split("\n")
+        .map(line => JSON.parse(line));
+}
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "event-log-"));
+    process.env["GITHUB_RUN_ID"] = "1234";
+});
+
+afterEach(() => {
+    testUtils.clearInputs();
+    delete process.env["GITHUB_RUN_ID"];
+    fs.rmSync(directory, { recursive: true, force: true });
+});
+
+test("logEvent appends JSON lines with the run of the event", () => {
+    const eventLog = path.join(directory, "logs", "cache.jsonl");
+    testUtils.setInput(Inputs.EventLog, eventLog);
+
+    logEvent({
+        type: CacheEventType.Restore,
+        groupId: "",
+        key: "node-abc",
+        matchedKey: "node-",
+        result: "partial",
+        sizeInBytes: 1024,
+        durationInMs: 1500
+    });
+    logEvent({ type: CacheEventType.Error, message: "Forbidden" });
+
+    const events = readEvents(eventLog);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+        type: "restore",
+        runId: "1234",
+        key: "node-abc",
+        matchedKey: "node-",
+        result: "partial",
+        sizeInBytes: 1024,
+        durationInMs: 1500
+    });
+    expect(events[0]).not.toHaveProperty("groupId");
+    expect(typeof events[0].timestamp).toBe("string");
+    expect(events[1]).toMatchObject({ type: "error", message: "Forbidden" });
+});
+
+test("logEvent does nothing without an event log", () => {
+    logEvent({ type: CacheEventType.Skip, message: "Not saving cache" });
+
+    expect(fs.readdirSync(directory)).toEqual([]);
+});
+
+test("logEvent does not throw when the event log cannot be written", () => {
+    const file = path.join(directory, "file");
+    fs.writeFileSync(file, "");
+    testUtils.setInput(Inputs.EventLog, path.join(file, "cache.jsonl"));
+
+    expect(() =>
+        logEvent({ type: CacheEventType.Skip, message: "Not saving cache" })
+    ).not.toThrow();
+});
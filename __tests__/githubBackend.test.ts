@@ -0,0 +1,308 @@
+import * as cacheHttpClient from "@actions/cache/lib/internal/cacheHttpClient";
+import * as config from "@actions/cache/lib/internal/config";
+import { CompressionMethod } from "@actions/cache/lib/internal/constants";
+import { internalCacheTwirpClient } from "@actions/cache/lib/internal/shared/cacheTwirpClient";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import * as archiveUtils from "../src/backends/archive";
+import { Archive } from "../src/backends/archive";
+import { GitHubCacheBackend } from "../src/backends/githubBackend";
+import { Inputs } from "../src/constants";
+import * as testUtils from "../src/utils/testUtils";
+
+jest.mock("@actions/cache/lib/internal/cacheHttpClient");
+jest.mock("@actions/cache/lib/internal/config");
+jest.mock("@actions/cache/lib/internal/shared/cacheTwirpClient");
+
+const paths = ["node_modules"];
+
+let root: string;
+let pristineEnv: NodeJS.ProcessEnv;
+let twirpClient: {
+    GetCacheEntryDownloadURL: jest.Mock;
+    CreateCacheEntry: jest.Mock;
+    FinalizeCacheEntryUpload: jest.Mock;
+};
+
+function createArchive(): Archive {
+    const archivePath = path.join(root, "cache.tzst");
+    fs.writeFileSync(archivePath, "archive");
+    return {
+        archivePath,
+        compressionMethod: CompressionMethod.Zstd,
+        version: "1234",
+        sizeInBytes: 7
+    };
+}
+
+beforeEach(() => {
+    pristineEnv = { ...process.env };
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "github-backend-"));
+    process.env["RUNNER_TEMP"] = root;
+    twirpClient = {
+        GetCacheEntryDownloadURL: jest.fn(),
+        CreateCacheEntry: jest.fn(),
+        FinalizeCacheEntryUpload: jest.fn()
+    };
+    jest.mocked(internalCacheTwirpClient).mockReturnValue(
+        twirpClient as unknown as ReturnType<typeof internalCacheTwirpClient>
+    );
+    jest.mocked(config.getCacheServiceVersion).mockReturnValue("v2");
+    jest.mocked(cacheHttpClient.downloadCache).mockImplementation(
+        async (archiveLocation, archivePath) =>
+            fs.writeFileSync(archivePath, archiveLocation)
+    );
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = pristineEnv;
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+test("github backend downloads the archive of the matched entry without extracting it", async () => {
+    twirpClient.GetCacheEntryDownloadURL.mockResolvedValue({
+        ok: true,
+        matchedKey: "node-old",
+        signedDownloadUrl: "https://blob/node-old"
+    });
+    const backend = new GitHubCacheBackend();
+
+    const downloaded = await backend.downloadArchive(paths, "node-abc", [
+        "node-"
+    ]);
+
+    expect(twirpClient.GetCacheEntryDownloadURL).toHaveBeenCalledWith(
+        expect.objectContaining({ key: "node-abc", restoreKeys: ["node-"] })
+    );
+    expect(downloaded?.key).toBe("node-old");
+    expect(fs.readFileSync(downloaded?.archive.archivePath ?? "", "utf8")).toBe(
+        "https://blob/node-old"
+    );
+    expect(cacheHttpClient.downloadCache).toHaveBeenCalledWith(
+        "https://blob/node-old",
+        downloaded?.archive.archivePath,
+        { useAzureSdk: true }
+    );
+});
+
+test("github backend downloads nothing without a matching entry", async () => {
+    twirpClient.GetCacheEntryDownloadURL.mockResolvedValue({ ok: false });
+    const backend = new GitHubCacheBackend();
+
+    expect(await backend.downloadArchive(paths, "node-abc")).toBeUndefined();
+    expect(cacheHttpClient.downloadCache).not.toHaveBeenCalled();
+});
+
+test("github backend uploads an archive and finalizes the entry", async () => {
+    twirpClient.CreateCacheEntry.mockResolvedValue({
+        ok: true,
+        signedUploadUrl: "https://blob/upload"
+    });
+    twirpClient.FinalizeCacheEntryUpload.mockResolvedValue({
+        ok: true,
+        entryId: "42"
+    });
+    const archive = createArchive();
+    const backend = new GitHubCacheBackend();
+
+    expect(await backend.uploadArchive(paths, "node-abc", archive)).toBe(42);
+    expect(twirpClient.CreateCacheEntry).toHaveBeenCalledWith({
+        key: "node-abc",
+        version: "1234"
+    });
+    expect(cacheHttpClient.saveCache).toHaveBeenCalledWith(
+        -1,
+        archive.archivePath,
+        "https://blob/upload",
+        expect.objectContaining({ useAzureSdk: true, archiveSizeBytes: 7 })
+    );
+    expect(twirpClient.FinalizeCacheEntryUpload).toHaveBeenCalledWith({
+        key: "node-abc",
+        version: "1234",
+        sizeBytes: "7"
+    });
+});
+
+test("github backend throws a reserve error when the entry already exists", async () => {
+    twirpClient.CreateCacheEntry.mockResolvedValue({ ok: false });
+    const backend = new GitHubCacheBackend();
+
+    await expect(
+        backend.uploadArchive(paths, "node-abc", createArchive())
+    ).rejects.toMatchObject({
+        name: "ReserveCacheError",
+        message:
+            "Unable to reserve cache with key node-abc, another job may be creating this cache."
+    });
+    expect(cacheHttpClient.saveCache).not.toHaveBeenCalled();
+});
+
+test("github backend only throws a reserve error for a conflict", async () => {
+    const backend = new GitHubCacheBackend();
+    twirpClient.CreateCacheEntry.mockRejectedValueOnce(
+        new Error(
+            "Failed to CreateCacheEntry: Received non-retryable error: Failed request: (409) Conflict: cache entry with the same key, version, and scope already exists"
+        )
+    ).mockRejectedValueOnce(
+        new Error(
+            "Failed to CreateCacheEntry: Received non-retryable error: Failed request: (401) Unauthorized"
+        )
+    );
+
+    await expect(
+        backend.uploadArchive(paths, "node-abc", createArchive())
+    ).rejects.toMatchObject({ name: "ReserveCacheError" });
+    await expect(
+        backend.uploadArchive(paths, "node-abc", createArchive())
+    ).rejects.toMatchObject({
+        name: "Error",
+        message:
+            "Failed to CreateCacheEntry: Received non-retryable error: Failed request: (401) Unauthorized"
+    });
+    expect(cacheHttpClient.saveCache).not.toHaveBeenCalled();
+});
+
+test("github backend only throws a reserve error for a conflict with the legacy cache service", async () => {
+    jest.mocked(config.getCacheServiceVersion).mockReturnValue("v1");
+    const backend = new GitHubCacheBackend();
+    jest.mocked(cacheHttpClient.reserveCache)
+        .mockResolvedValueOnce({
+            statusCode: 409,
+            result: null,
+            headers: {},
+            error: Object.assign(new Error("Cache already exists"), {
+                statusCode: 409
+            })
+        })
+        .mockResolvedValueOnce({
+            statusCode: 503,
+            result: null,
+            headers: {},
+            error: Object.assign(new Error("Service Unavailable"), {
+                statusCode: 503
+            })
+        });
+
+    await expect(
+        backend.uploadArchive(paths, "node-abc", createArchive())
+    ).rejects.toMatchObject({ name: "ReserveCacheError" });
+    await expect(
+        backend.uploadArchive(paths, "node-abc", createArchive())
+    ).rejects.toMatchObject({
+        name: "Error",
+        message:
+            "Unable to reserve cache with key node-abc: Service Unavailable",
+        statusCode: 503
+    });
+});
+
+test("github backend reserves an id with the legacy cache service", async () => {
+    jest.mocked(config.getCacheServiceVersion).mockReturnValue("v1");
+    jest.mocked(cacheHttpClient.getCacheEntry).mockResolvedValue({
+        cacheKey: "node-abc",
+        archiveLocation: "https://cache/node-abc"
+    });
+    jest.mocked(cacheHttpClient.reserveCache).mockResolvedValue({
+        statusCode: 201,
+        result: { cacheId: 7 },
+        headers: {}
+    });
+    const archive = createArchive();
+    const backend = new GitHubCacheBackend();
+
+    expect((await backend.downloadArchive(paths, "node-abc"))?.key).toBe(
+        "node-abc"
+    );
+    expect(await backend.uploadArchive(paths, "node-def", archive)).toBe(7);
+    expect(cacheHttpClient.reserveCache).toHaveBeenCalledWith(
+        "node-def",
+        paths,
+        {
+            compressionMethod: CompressionMethod.Zstd,
+            enableCrossOsArchive: false,
+            cacheSize: 7
+        }
+    );
+    expect(cacheHttpClient.saveCache).toHaveBeenCalledWith(
+        7,
+        archive.archivePath,
+        "",
+        undefined
+    );
+});
+
+// Errors of @actions/http-client carry the status of the response
+function createHttpError(statusCode: number): Error {
+    return Object.assign(new Error(`Request failed with ${statusCode}`), {
+        statusCode
+    });
+}
+
+test("github backend retries a restore that failed with a transient error", async () => {
+    testUtils.setInput(Inputs.Retries, "2");
+    testUtils.setInput(Inputs.RetryBackoff, "0");
+    twirpClient.GetCacheEntryDownloadURL.mockResolvedValue({
+        ok: true,
+        matchedKey: "node-abc",
+        signedDownloadUrl: "https://blob/node-abc"
+    });
+    jest.mocked(cacheHttpClient.downloadCache)
+        .mockRejectedValueOnce(createHttpError(503))
+        .mockImplementationOnce(async (archiveLocation, archivePath) =>
+            fs.writeFileSync(archivePath, archiveLocation)
+        );
+    const extractArchiveMock = jest
+        .spyOn(archiveUtils, "extractArchive")
+        .mockResolvedValue();
+    const backend = new GitHubCacheBackend();
+
+    expect(await backend.restore(paths, "node-abc")).toBe("node-abc");
+    expect(cacheHttpClient.downloadCache).toHaveBeenCalledTimes(2);
+    expect(extractArchiveMock).toHaveBeenCalledTimes(1);
+});
+
+test("github backend archives the files once for every attempt of a save", async () => {
+    testUtils.setInput(Inputs.Retries, "2");
+    testUtils.setInput(Inputs.RetryBackoff, "0");
+    twirpClient.CreateCacheEntry.mockResolvedValue({
+        ok: true,
+        signedUploadUrl: "https://blob/upload"
+    });
+    twirpClient.FinalizeCacheEntryUpload.mockResolvedValue({
+        ok: true,
+        entryId: "42"
+    });
+    jest.mocked(cacheHttpClient.saveCache).mockRejectedValueOnce(
+        createHttpError(502)
+    );
+    const createArchiveMock = jest
+        .spyOn(archiveUtils, "createArchive")
+        .mockImplementation(async () => createArchive());
+    const backend = new GitHubCacheBackend();
+
+    expect(await backend.save(paths, "node-abc")).toBe(42);
+    expect(cacheHttpClient.saveCache).toHaveBeenCalledTimes(2);
+    expect(createArchiveMock).toHaveBeenCalledTimes(1);
+});
+
+test("github backend does not retry a save that would fail again", async () => {
+    testUtils.setInput(Inputs.Retries, "2");
+    testUtils.setInput(Inputs.RetryBackoff, "0");
+    twirpClient.CreateCacheEntry.mockResolvedValue({
+        ok: true,
+        signedUploadUrl: "https://blob/upload"
+    });
+    jest.mocked(cacheHttpClient.saveCache).mockRejectedValue(
+        createHttpError(400)
+    );
+    jest.spyOn(archiveUtils, "createArchive").mockImplementation(async () =>
+        createArchive()
+    );
+    const backend = new GitHubCacheBackend();
+
+    expect(await backend.save(paths, "node-abc")).toBe(-1);
+    expect(cacheHttpClient.saveCache).toHaveBeenCalledTimes(1);
+});
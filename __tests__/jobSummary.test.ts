@@ -0,0 +1,174 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { BackendType, ICacheBackend } from "../src/backends/backend";
+import { Inputs } from "../src/constants";
+import {
+    CacheMatch,
+    describeCacheEntry,
+    getCacheMatch,
+    writeJobSummary
+} from "../src/utils/jobSummary";
+import * as testUtils from "../src/utils/testUtils";
+
+let summaryPath: string;
+
+function createBackend(
+    describe: ICacheBackend["describe"],
+    type = BackendType.Local
+): ICacheBackend {
+    return {
+        type,
+        isAvailable: () => true,
+        restore: jest.fn(),
+        save: jest.fn(),
+        lookup: jest.fn(),
+        canDelete: () => true,
+        delete: jest.fn(),
+        list: jest.fn(),
+        describe,
+        findEntries: jest.fn()
+    };
+}
+
+// core.summary remembers the path of the summary file, so it is shared by all tests
+beforeAll(() => {
+    summaryPath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "job-summary-")),
+        "summary.md"
+    );
+    process.env["GITHUB_STEP_SUMMARY"] = summaryPath;
+});
+
+beforeEach(() => {
+    fs.writeFileSync(summaryPath, "");
+});
+
+afterEach(() => {
+    testUtils.clearInputs();
+});
+
+afterAll(() => {
+    delete process.env["GITHUB_STEP_SUMMARY"];
+    fs.rmSync(path.dirname(summaryPath), { recursive: true, force: true });
+});
+
+test("getCacheMatch distinguishes exact, prefix and missed keys", () => {
+    expect(getCacheMatch("Linux-node-abc", "Linux-node-abc")).toBe(
+        CacheMatch.Exact
+    );
+    expect(getCacheMatch("Linux-node-abc", "Linux-node-")).toBe(
+        CacheMatch.Prefix
+    );
+    expect(getCacheMatch("Linux-node-abc")).toBe(CacheMatch.Miss);
+});
+
+test("writeJobSummary writes a table of the entries", async () => {
+    await writeJobSummary("Cache restore", [
+        {
+            groupId: "",
+            primaryKey: "Linux-node-abc",
+            matchedKey: "Linux-node-<old>",
+            sizeInBytes: 3 * 1024 * 1024,
+            durationInMs: 1500,
+            outcome: "Restored"
+        },
+        { groupId: "", primaryKey: "Linux-yarn-abc", outcome: "Not found" }
+    ]);
+
+    const summary = fs.readFileSync(summaryPath, "utf8");
+    expect(summary).toContain("<h3>Cache restore</h3>");
+    expect(summary).not.toContain("<th>Cache</th>");
+    expect(summary).toContain(
+        "<tr><td><code>Linux-node-abc</code></td><td><code>Linux-node-&lt;old&gt;</code></td><td>prefix</td><td>~3 MB (3145728 B)</td><td>1.5 s</td><td>Restored</td></tr>"
+    );
+    expect(summary).toContain(
+        "<tr><td><code>Linux-yarn-abc</code></td><td>-</td><td>miss</td><td>-</td><td>-</td><td>Not found</td></tr>"
+    );
+});
+
+test("writeJobSummary adds a column for cache groups", async () => {
+    await writeJobSummary("Cache save", [
+        {
+            groupId: "deps",
+            primaryKey: "Linux-node-abc",
+            matchedKey: "Linux-node-abc",
+            outcome: "Skipped, exact hit"
+        }
+    ]);
+
+    const summary = fs.readFileSync(summaryPath, "utf8");
+    expect(summary).toContain("<th>Cache</th>");
+    expect(summary).toContain(
+        "<tr><td>deps</td><td><code>Linux-node-abc</code></td><td><code>Linux-node-abc</code></td><td>exact</td>"
+    );
+});
+
+test("writeJobSummary does nothing when disabled", async () => {
+    testUtils.setInput(Inputs.JobSummary, "false");
+
+    await writeJobSummary("Cache restore", [
+        { groupId: "", primaryKey: "Linux-node-abc", outcome: "Not found" }
+    ]);
+
+    expect(fs.readFileSync(summaryPath, "utf8")).toBe("");
+});
+
+test("writeJobSummary does nothing without entries", async () => {
+    await writeJobSummary("Cache restore", []);
+
+    expect(fs.readFileSync(summaryPath, "utf8")).toBe("");
+});
+
+test("describeCacheEntry looks up the entry with the exact key", async () => {
+    const describe = jest
+        .fn()
+        .mockResolvedValue({ key: "Linux-node-abc", sizeInBytes: 1 });
+
+    const entry = await describeCacheEntry(
+        createBackend(describe),
+        ["node_modules"],
+        "Linux-node-abc",
+        true
+    );
+
+    expect(describe).toHaveBeenCalledWith(
+        ["node_modules"],
+        "Linux-node-abc",
+        true
+    );
+    expect(entry).toEqual({ key: "Linux-node-abc", sizeInBytes: 1 });
+});
+
+test("describeCacheEntry only looks up entries of the github backend when required", async () => {
+    const describe = jest
+        .fn()
+        .mockResolvedValue({ key: "Linux-node-abc", sizeInBytes: 1 });
+    const backend = createBackend(describe, BackendType.GitHub);
+
+    expect(
+        await describeCacheEntry(backend, ["node_modules"], "Linux-node-abc")
+    ).toBeUndefined();
+    expect(describe).toHaveBeenCalledTimes(0);
+
+    expect(
+        await describeCacheEntry(
+            backend,
+            ["node_modules"],
+            "Linux-node-abc",
+            false,
+            true
+        )
+    ).toEqual({ key: "Linux-node-abc", sizeInBytes: 1 });
+});
+
+test("describeCacheEntry returns nothing when the lookup fails", async () => {
+    const backend = createBackend(
+        jest.fn().mockRejectedValue(new Error("Forbidden"))
+    );
+
+    expect(
+        await describeCacheEntry(backend, ["node_modules"], "Linux-node-abc")
+    ).toBeUndefined();
+});
@@ -0,0 +1,76 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+    evaluateKey,
+    hashFiles,
+    isKeyTemplate
+} from "../src/utils/keyTemplate";
+
+const fixture = path.join(__dirname, "__fixtures__", "helloWorld.txt");
+
+function sha256(data: Buffer): Buffer {
+    return crypto.createHash("sha256").update(data).digest();
+}
+
+let pristineEnv: NodeJS.ProcessEnv;
+
+beforeEach(() => {
+    pristineEnv = { ...process.env };
+    process.env["GITHUB_WORKSPACE"] = path.join(__dirname, "..");
+    process.env["RUNNER_OS"] = "Linux";
+});
+
+afterEach(() => {
+    process.env = pristineEnv;
+});
+
+test("isKeyTemplate detects placeholders", () => {
+    expect(isKeyTemplate("node-{{ runner.os }}")).toBe(true);
+    expect(isKeyTemplate("node-linux")).toBe(false);
+});
+
+test("evaluateKey returns plain keys unchanged", async () => {
+    expect(await evaluateKey("Linux-node-abc")).toBe("Linux-node-abc");
+});
+
+test("evaluateKey expands runner, github and env contexts", async () => {
+    process.env["GITHUB_REF_NAME"] = "main";
+    process.env["NODE_VERSION"] = "20";
+
+    expect(
+        await evaluateKey(
+            "{{ runner.os }}-{{github.ref_name}}-node-{{ env.NODE_VERSION }}-{{ env.UNSET_VARIABLE }}"
+        )
+    ).toBe("Linux-main-node-20-");
+});
+
+test("evaluateKey expands hashFiles like the runner does", async () => {
+    const expected = sha256(sha256(fs.readFileSync(fixture))).toString("hex");
+
+    expect(
+        await evaluateKey(
+            "{{ runner.os }}-{{ hashFiles('__tests__/__fixtures__/*.txt') }}"
+        )
+    ).toBe(`Linux-${expected}`);
+});
+
+test("hashFiles ignores files outside of the workspace and returns an empty string without matches", async () => {
+    process.env["GITHUB_WORKSPACE"] = path.join(__dirname, "__fixtures__");
+
+    expect(await hashFiles(["__tests__/*.ts"])).toBe("");
+    expect(await hashFiles(["__tests__/__fixtures__/*.missing"])).toBe("");
+});
+
+test("evaluateKey rejects unsupported expressions", async () => {
+    await expect(evaluateKey("{{ secrets.TOKEN }}")).rejects.toThrow(
+        "Key Template Error: Unsupported expression {{ secrets.TOKEN }}."
+    );
+    await expect(evaluateKey("{{ hashFiles(package.json) }}")).rejects.toThrow(
+        "Key Template Error: hashFiles only accepts quoted string arguments, got (package.json)."
+    );
+    await expect(evaluateKey("{{ hashFiles() }}")).rejects.toThrow(
+        "Key Template Error: hashFiles requires at least one pattern."
+    );
+});
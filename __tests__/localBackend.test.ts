@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import * as archiveUtils from "../src/backends/archive";
+import { DownloadedArchive } from "../src/backends/backend";
+import { LocalCacheBackend } from "../src/backends/localBackend";
+
+let root: string;
+let workspace: string;
+let backend: LocalCacheBackend;
+let pristineEnv: NodeJS.ProcessEnv;
+
+function writeFile(name: string, contents: string): void {
+    fs.mkdirSync(path.dirname(path.join(workspace, name)), {
+        recursive: true
+    });
+    fs.writeFileSync(path.join(workspace, name), contents);
+}
+
+function readFile(name: string): string {
+    return fs.readFileSync(path.join(workspace, name), "utf8");
+}
+
+beforeEach(() => {
+    pristineEnv = { ...process.env };
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "local-backend-"));
+    workspace = path.join(root, "workspace");
+    fs.mkdirSync(workspace);
+    process.env["GITHUB_WORKSPACE"] = workspace;
+    process.env["RUNNER_TEMP"] = path.join(root, "temp");
+    backend = new LocalCacheBackend(path.join(root, "cache"));
+    jest.spyOn(process, "cwd").mockReturnValue(workspace);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = pristineEnv;
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+test("local backend saves and restores an entry by exact key", async () => {
+    writeFile("deps/a.txt", "a");
+
+    expect(await backend.save(["deps"], "deps-linux-1")).toBe(0);
+
+    fs.rmSync(path.join(workspace, "deps"), { recursive: true });
+    expect(await backend.restore(["deps"], "deps-linux-1")).toBe(
+        "deps-linux-1"
+    );
+    expect(readFile("deps/a.txt")).toBe("a");
+});
+
+test("local backend matches restore keys by prefix, newest entry first", async () => {
+    writeFile("deps/a.txt", "old");
+    await backend.save(["deps"], "deps-linux-1");
+    writeFile("deps/a.txt", "new");
+    await backend.save(["deps"], "deps-linux-2");
+    fs.rmSync(path.join(workspace, "deps"), { recursive: true });
+
+    // Make sure the second entry is the most recent one
+    const metadata = (await backend.list("deps-linux-2"))[0];
+    expect(metadata.key).toBe("deps-linux-2");
+
+    expect(
+        await backend.restore(["deps"], "deps-linux-3", [
+            "deps-windows-",
+            "deps-"
+        ])
+    ).toBe("deps-linux-2");
+    expect(readFile("deps/a.txt")).toBe("new");
+});
+
+test("local backend does not match entries saved with different paths", async () => {
+    writeFile("deps/a.txt", "a");
+    writeFile("other/b.txt", "b");
+    await backend.save(["deps"], "deps-linux-1");
+
+    expect(await backend.restore(["other"], "deps-linux-1")).toBeUndefined();
+});
+
+test("local backend lookup does not extract the archive", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+    fs.rmSync(path.join(workspace, "deps"), { recursive: true });
+
+    expect(await backend.lookup(["deps"], "deps-linux-1")).toBe("deps-linux-1");
+    expect(fs.existsSync(path.join(workspace, "deps"))).toBe(false);
+});
+
+test("local backend refuses to overwrite an existing entry", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+
+    await expect(backend.save(["deps"], "deps-linux-1")).rejects.toThrow(
+        /^Unable to reserve cache with key deps-linux-1/
+    );
+});
+
+test("local backend deletes and lists entries", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+    await backend.save(["deps"], "deps-linux-2");
+
+    expect(
+        (await backend.list("deps-")).map(entry => entry.key).sort()
+    ).toEqual(["deps-linux-1", "deps-linux-2"]);
+    expect(await backend.delete("deps-linux-1")).toBe(true);
+    expect(await backend.delete("deps-linux-1")).toBe(false);
+    expect((await backend.list()).map(entry => entry.key)).toEqual([
+        "deps-linux-2"
+    ]);
+});
+
+test("local backend describes an entry saved with the same paths", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+
+    expect(await backend.describe(["deps"], "deps-linux-1")).toEqual(
+        (await backend.list("deps-linux-1"))[0]
+    );
+    expect(await backend.describe(["deps"], "deps-linux-2")).toBeUndefined();
+    expect(await backend.describe(["other"], "deps-linux-1")).toBeUndefined();
+});
+
+test("local backend finds the entries of a version with the ref they were saved on", async () => {
+    writeFile("deps/a.txt", "a");
+    writeFile("other/b.txt", "b");
+    process.env["GITHUB_REF"] = "refs/heads/main";
+    await backend.save(["deps"], "deps-linux-1");
+    process.env["GITHUB_REF"] = "refs/heads/feature";
+    await backend.save(["deps"], "deps-linux-2");
+    await backend.save(["deps"], "other-linux-1");
+    await backend.save(["other"], "deps-linux-3");
+
+    const entries = await backend.findEntries(["deps"], ["deps-", "none-"]);
+    expect(entries.map(entry => [entry.key, entry.ref]).sort()).toEqual([
+        ["deps-linux-1", "refs/heads/main"],
+        ["deps-linux-2", "refs/heads/feature"]
+    ]);
+});
+
+test("local backend records restores without writing the metadata again", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+    const [savedEntry] = await backend.list();
+
+    await backend.restore(["deps"], "deps-linux-1");
+    const [restoredEntry] = await backend.list();
+    expect(restoredEntry.createdAt).toEqual(savedEntry.createdAt);
+    expect(restoredEntry.lastAccessedAt?.getTime()).toBeGreaterThanOrEqual(
+        savedEntry.lastAccessedAt?.getTime() ?? 0
+    );
+
+    // An entry deleted while it is extracted stays deleted, and its key can be saved again
+    jest.spyOn(archiveUtils, "extractArchive").mockImplementationOnce(
+        async () => {
+            await backend.delete("deps-linux-1");
+        }
+    );
+    expect(await backend.restore(["deps"], "deps-linux-1")).toBe(
+        "deps-linux-1"
+    );
+    expect(await backend.list()).toEqual([]);
+    await backend.save(["deps"], "deps-linux-1");
+    expect(await backend.restore(["deps"], "deps-linux-1")).toBe(
+        "deps-linux-1"
+    );
+});
+
+test("local backend copies archives to another backend as they are", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+    const other = new LocalCacheBackend(path.join(root, "other"));
+
+    const { key, archive } = (await backend.downloadArchive(
+        ["deps"],
+        "deps-linux-",
+        ["deps-"]
+    )) as DownloadedArchive;
+    expect(key).toBe("deps-linux-1");
+    expect(await other.uploadArchive(["deps"], key, archive)).toBe(0);
+    expect(await other.describe(["deps"], key)).toMatchObject({
+        sizeInBytes: archive.sizeInBytes
+    });
+
+    fs.rmSync(path.join(workspace, "deps"), { recursive: true });
+    expect(await other.restore(["deps"], "deps-linux-1")).toBe("deps-linux-1");
+    expect(readFile("deps/a.txt")).toBe("a");
+});
+
+test("local backend validates keys like the Actions cache service", async () => {
+    await expect(backend.restore(["deps"], "comma,comma")).rejects.toThrow(
+        "Key Validation Error: comma,comma cannot contain commas."
+    );
+});
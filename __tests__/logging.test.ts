@@ -0,0 +1,77 @@
+import * as core from "@actions/core";
+
+import { Inputs } from "../src/constants";
+import {
+    getWarningLevel,
+    logWarning,
+    WarningLevel
+} from "../src/utils/logging";
+import * as testUtils from "../src/utils/testUtils";
+
+const message = "A warning occurred.";
+
+beforeEach(() => {
+    jest.spyOn(core, "warning").mockImplementation(() => undefined);
+    jest.spyOn(core, "info").mockImplementation(() => undefined);
+    jest.spyOn(core, "debug").mockImplementation(() => undefined);
+    jest.spyOn(core, "setFailed").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    testUtils.clearInputs();
+    jest.restoreAllMocks();
+});
+
+test("getWarningLevel defaults to annotations", () => {
+    expect(getWarningLevel()).toBe(WarningLevel.Annotate);
+});
+
+test("getWarningLevel ignores the case of the input", () => {
+    testUtils.setInput(Inputs.WarningLevel, "Silent");
+
+    expect(getWarningLevel()).toBe(WarningLevel.Silent);
+});
+
+test("getWarningLevel falls back to annotations for an invalid value", () => {
+    testUtils.setInput(Inputs.WarningLevel, "loud");
+
+    expect(getWarningLevel()).toBe(WarningLevel.Annotate);
+    expect(core.warning).toHaveBeenCalledWith(
+        "Input Validation Error: warning-level must be one of annotate, info, silent, error, got loud. Warnings are reported as annotations."
+    );
+});
+
+test("logWarning reports an annotation at the annotate level", () => {
+    logWarning(message);
+
+    expect(core.warning).toHaveBeenCalledWith(message);
+    expect(core.setFailed).not.toHaveBeenCalled();
+});
+
+test("logWarning logs a line with a warning prefix at the info level", () => {
+    testUtils.setInput(Inputs.WarningLevel, "info");
+
+    logWarning(message);
+
+    expect(core.info).toHaveBeenCalledWith(`[warning]${message}`);
+    expect(core.warning).not.toHaveBeenCalled();
+});
+
+test("logWarning only logs to the debug log at the silent level", () => {
+    testUtils.setInput(Inputs.WarningLevel, "silent");
+
+    logWarning(message);
+
+    expect(core.debug).toHaveBeenCalledWith(`[warning]${message}`);
+    expect(core.warning).not.toHaveBeenCalled();
+    expect(core.info).not.toHaveBeenCalled();
+});
+
+test("logWarning fails the step at the error level", () => {
+    testUtils.setInput(Inputs.WarningLevel, "error");
+
+    logWarning(message);
+
+    expect(core.setFailed).toHaveBeenCalledWith(message);
+    expect(core.warning).not.toHaveBeenCalled();
+});
@@ -0,0 +1,190 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { Inputs } from "../src/constants";
+import {
+    applyExclusions,
+    buildManifest,
+    ChecksumMismatchAction,
+    computeManifestDigest,
+    getArchivePaths,
+    getChecksumMismatchAction,
+    getLargestDirectories,
+    getManifestMode,
+    ManifestMode,
+    removeChecksumManifest,
+    verifyChecksumManifest,
+    writeChecksumManifest
+} from "../src/utils/manifest";
+import * as testUtils from "../src/utils/testUtils";
+
+let workspace: string;
+let pristineWorkspace: string | undefined;
+
+beforeEach(() => {
+    pristineWorkspace = process.env["GITHUB_WORKSPACE"];
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-"));
+    process.env["GITHUB_WORKSPACE"] = workspace;
+
+    fs.mkdirSync(path.join(workspace, "deps", "nested"), { recursive: true });
+    fs.writeFileSync(path.join(workspace, "deps", "a.txt"), "a");
+    fs.writeFileSync(path.join(workspace, "deps", "nested", "b.txt"), "bb");
+});
+
+afterEach(() => {
+    testUtils.clearInputs();
+    fs.rmSync(workspace, { recursive: true, force: true });
+    process.env["GITHUB_WORKSPACE"] = pristineWorkspace;
+});
+
+test("getManifestMode defaults to off and rejects unknown values", () => {
+    expect(getManifestMode()).toBe(ManifestMode.Off);
+
+    testUtils.setInput(Inputs.UnchangedCheck, "content");
+    expect(getManifestMode()).toBe(ManifestMode.Content);
+
+    testUtils.setInput(Inputs.UnchangedCheck, "true");
+    expect(() => getManifestMode()).toThrow(
+        "Input Validation Error: unchanged-check must be one of off, metadata, content."
+    );
+});
+
+test("buildManifest lists files relative to the workspace", async () => {
+    const entries = await buildManifest(
+        [path.join(workspace, "deps")],
+        ManifestMode.Content
+    );
+
+    expect(entries).toEqual([
+        {
+            path: "deps/a.txt",
+            size: 1,
+            sha256: "ca978112ca1bbdcafac231b39a23dc4da786eff8147c4e72b9807785afee48bb"
+        },
+        {
+            path: "deps/nested/b.txt",
+            size: 2,
+            sha256: "3b64db95cb55c763391c707108489ae18b4112d783300de38e033b4c98c3deaf"
+        }
+    ]);
+});
+
+test("computeManifestDigest changes when a file changes", async () => {
+    const cachePaths = [path.join(workspace, "deps")];
+    const before = await computeManifestDigest(
+        cachePaths,
+        ManifestMode.Content
+    );
+
+    expect(await computeManifestDigest(cachePaths, ManifestMode.Content)).toBe(
+        before
+    );
+
+    fs.writeFileSync(path.join(workspace, "deps", "a.txt"), "b");
+    expect(
+        await computeManifestDigest(cachePaths, ManifestMode.Content)
+    ).not.toBe(before);
+});
+
+test("computeManifestDigest in metadata mode tracks modification times", async () => {
+    const cachePaths = [path.join(workspace, "deps")];
+    const before = await computeManifestDigest(
+        cachePaths,
+        ManifestMode.Metadata
+    );
+
+    const file = path.join(workspace, "deps", "a.txt");
+    fs.utimesSync(file, new Date(0), new Date(0));
+    expect(
+        await computeManifestDigest(cachePaths, ManifestMode.Metadata)
+    ).not.toBe(before);
+});
+
+test("getChecksumMismatchAction defaults to warn and rejects unknown values", () => {
+    expect(getChecksumMismatchAction()).toBe(ChecksumMismatchAction.Warn);
+
+    testUtils.setInput(Inputs.ChecksumMismatch, "delete");
+    expect(getChecksumMismatchAction()).toBe(ChecksumMismatchAction.Delete);
+
+    testUtils.setInput(Inputs.ChecksumMismatch, "ignore");
+    expect(() => getChecksumMismatchAction()).toThrow(
+        "Input Validation Error: checksum-mismatch must be one of warn, fail, delete."
+    );
+});
+
+test("getArchivePaths adds the checksum manifest first when checksums are enabled", () => {
+    expect(getArchivePaths(["deps"], "")).toEqual(["deps"]);
+
+    testUtils.setInput(Inputs.Checksums, "true");
+    expect(getArchivePaths(["deps"], "")).toEqual([
+        ".cache-checksums/cache.json",
+        "deps"
+    ]);
+    expect(getArchivePaths(["deps"], "npm")).toEqual([
+        ".cache-checksums/npm.json",
+        "deps"
+    ]);
+});
+
+test("verifyChecksumManifest reports files that are missing or changed", async () => {
+    const pristineCwd = process.cwd();
+    process.chdir(workspace);
+    try {
+        await writeChecksumManifest([path.join(workspace, "deps")], "");
+        expect(await verifyChecksumManifest("")).toEqual([]);
+
+        fs.writeFileSync(path.join(workspace, "deps", "a.txt"), "b");
+        fs.rmSync(path.join(workspace, "deps", "nested", "b.txt"));
+        expect(await verifyChecksumManifest("")).toEqual([
+            "deps/a.txt",
+            "deps/nested/b.txt"
+        ]);
+
+        removeChecksumManifest("");
+        expect(fs.existsSync(path.join(workspace, ".cache-checksums"))).toBe(
+            false
+        );
+        expect(await verifyChecksumManifest("")).toBeUndefined();
+    } finally {
+        process.chdir(pristineCwd);
+    }
+});
+
+test("applyExclusions appends the exclude patterns as negated patterns", () => {
+    expect(applyExclusions(["deps"])).toEqual(["deps"]);
+
+    testUtils.setInput(Inputs.Exclude, "**/.git\n!**/*.tmp");
+    expect(applyExclusions(["deps"])).toEqual([
+        "deps",
+        "!**/.git",
+        "!**/*.tmp"
+    ]);
+});
+
+test("buildManifest skips excluded files", async () => {
+    testUtils.setInput(Inputs.Exclude, path.join(workspace, "deps", "nested"));
+
+    const entries = await buildManifest(
+        applyExclusions([path.join(workspace, "deps")]),
+        ManifestMode.Metadata
+    );
+
+    expect(entries.map(entry => entry.path)).toEqual(["deps/a.txt"]);
+});
+
+test("getLargestDirectories sums sizes by the first two directory levels", () => {
+    const entries = [
+        { path: "node_modules/typescript/lib/tsc.js", size: 50 },
+        { path: "node_modules/typescript/package.json", size: 5 },
+        { path: "node_modules/.bin/tsc", size: 1 },
+        { path: "../../.npm/_cacache/index", size: 20 },
+        { path: "top.txt", size: 3 }
+    ];
+
+    expect(getLargestDirectories(entries, 3)).toEqual([
+        { path: "node_modules/typescript", size: 55 },
+        { path: "../../.npm/_cacache", size: 20 },
+        { path: ".", size: 3 }
+    ]);
+});
@@ -0,0 +1,300 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { EventPathKey, Events, Inputs } from "../src/constants";
+import {
+    getPruneOptions,
+    pruneImpl,
+    PruneOptions,
+    selectEntriesToPrune
+} from "../src/pruneImpl";
+import * as actionUtils from "../src/utils/actionUtils";
+import * as testUtils from "../src/utils/testUtils";
+
+jest.mock("@actions/core");
+
+const now = new Date("2024-06-30T00:00:00Z").getTime();
+const day = 24 * 60 * 60 * 1000;
+const megabyte = 1024 * 1024;
+
+function createEntry(
+    id: number,
+    key: string,
+    ref: string,
+    daysSinceAccess: number,
+    sizeInMegabytes = 1
+): actionUtils.ActionsCacheEntry {
+    return {
+        id,
+        key,
+        ref,
+        version:
+            "73885106f58cc52a7df9ec4d4a5622a5614813162cb516c759a30af6bf56e6f0",
+        last_accessed_at: new Date(now - daysSinceAccess * day).toISOString(),
+        created_at: new Date(now - 30 * day).toISOString(),
+        size_in_bytes: sizeInMegabytes * megabyte
+    };
+}
+
+const entries = [
+    createEntry(1, "npm-linux-a", "refs/heads/main", 1),
+    createEntry(2, "npm-linux-b", "refs/heads/main", 10),
+    createEntry(3, "npm-linux-c", "refs/pull/7/merge", 2),
+    createEntry(4, "npm-linux-d", "refs/heads/feature/x", 20),
+    createEntry(5, "pip-linux-a", "refs/heads/main", 3, 5),
+    createEntry(6, "pip-linux-b", "refs/heads/main", 4, 5)
+];
+
+const noCriteria: PruneOptions = { keyPrefixes: [], refPatterns: [] };
+
+function getIds(selected: actionUtils.ActionsCacheEntry[]): number[] {
+    return selected.map(entry => entry.id as number).sort();
+}
+
+beforeEach(() => {
+    process.env["GITHUB_REPOSITORY"] = "owner/repo";
+    jest.spyOn(core, "getInput").mockImplementation((name, options) => {
+        return jest.requireActual("@actions/core").getInput(name, options);
+    });
+});
+
+afterEach(() => {
+    testUtils.clearInputs();
+    delete process.env["GITHUB_REPOSITORY"];
+    delete process.env[Events.Key];
+    delete process.env[EventPathKey];
+    jest.restoreAllMocks();
+});
+
+test("selectEntriesToPrune selects every entry matching the prefix and ref without other criteria", () => {
+    expect(getIds(selectEntriesToPrune(entries, noCriteria, now))).toEqual([
+        1, 2, 3, 4, 5, 6
+    ]);
+    expect(
+        getIds(
+            selectEntriesToPrune(
+                entries,
+                { keyPrefixes: ["npm-"], refPatterns: ["refs/heads/**"] },
+                now
+            )
+        )
+    ).toEqual([1, 2, 4]);
+});
+
+test("selectEntriesToPrune selects entries not accessed within the maximum age", () => {
+    expect(
+        getIds(
+            selectEntriesToPrune(
+                entries,
+                { ...noCriteria, maxAge: 7 * day },
+                now
+            )
+        )
+    ).toEqual([2, 4]);
+});
+
+test("selectEntriesToPrune keeps the most recently accessed entries of each prefix within the budgets", () => {
+    const options = { keyPrefixes: ["npm-", "pip-"], refPatterns: [] };
+    expect(
+        getIds(
+            selectEntriesToPrune(entries, { ...options, maxEntries: 1 }, now)
+        )
+    ).toEqual([2, 3, 4, 6]);
+    expect(
+        getIds(
+            selectEntriesToPrune(
+                entries,
+                { ...options, maxTotalSize: 3 * megabyte },
+                now
+            )
+        )
+    ).toEqual([4, 5, 6]);
+});
+
+test("selectEntriesToPrune applies budgets to entries within the maximum age", () => {
+    expect(
+        getIds(
+            selectEntriesToPrune(
+                entries,
+                {
+                    keyPrefixes: ["npm-"],
+                    refPatterns: [],
+                    maxAge: 15 * day,
+                    maxEntries: 2
+                },
+                now
+            )
+        )
+    ).toEqual([2, 4]);
+});
+
+test("getPruneOptions reads and validates the inputs", () => {
+    testUtils.setInput(Inputs.KeyPrefix, "npm-\npip-");
+    testUtils.setInput(Inputs.Ref, "refs/pull/*/merge");
+    testUtils.setInput(Inputs.MaxAge, "7");
+    testUtils.setInput(Inputs.MaxEntries, "3");
+    testUtils.setInput(Inputs.MaxTotalSize, "2GB");
+
+    expect(getPruneOptions()).toEqual({
+        keyPrefixes: ["npm-", "pip-"],
+        refPatterns: ["refs/pull/*/merge"],
+        maxAge: 7 * day,
+        maxEntries: 3,
+        maxTotalSize: 2 * 1024 * megabyte
+    });
+
+    testUtils.setInput(Inputs.MaxAge, "last week");
+    expect(() => getPruneOptions()).toThrow(
+        "Input Validation Error: max-age must be a duration like 30m, 12h or 7d, got last week."
+    );
+});
+
+test("getPruneOptions rejects an invalid max-entries instead of ignoring it", () => {
+    testUtils.setInput(Inputs.KeyPrefix, "npm-");
+
+    for (const value of ["abc", "-1", "2.5"]) {
+        testUtils.setInput(Inputs.MaxEntries, value);
+        expect(() => getPruneOptions()).toThrow(
+            `Input Validation Error: max-entries must be a number of entries, got ${value}.`
+        );
+    }
+});
+
+test("prune with an invalid max-entries deletes nothing", async () => {
+    testUtils.setInput(Inputs.KeyPrefix, "npm-");
+    testUtils.setInput(Inputs.MaxEntries, "abc");
+    const failedMock = jest.spyOn(core, "setFailed");
+    const listMock = jest.spyOn(actionUtils, "listCacheEntries");
+    const deleteMock = jest.spyOn(actionUtils, "deleteCacheById");
+
+    expect(await pruneImpl()).toBeUndefined();
+
+    expect(failedMock).toHaveBeenCalledWith(
+        "Input Validation Error: max-entries must be a number of entries, got abc."
+    );
+    expect(listMock).not.toHaveBeenCalled();
+    expect(deleteMock).not.toHaveBeenCalled();
+});
+
+test("prune deletes the selected entries and reports the freed bytes", async () => {
+    const listMock = jest
+        .spyOn(actionUtils, "listCacheEntries")
+        .mockResolvedValue(entries.slice(0, 4));
+    const deleteMock = jest
+        .spyOn(actionUtils, "deleteCacheById")
+        .mockImplementation(id => Promise.resolve(id !== 3));
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const failedMock = jest.spyOn(core, "setFailed");
+
+    testUtils.setInput(Inputs.Token, "ghs_token");
+    testUtils.setInput(Inputs.KeyPrefix, "npm-");
+    testUtils.setInput(Inputs.Ref, "refs/pull/**\nrefs/heads/feature/**");
+
+    const result = await pruneImpl();
+
+    expect(listMock).toHaveBeenCalledWith(
+        "owner",
+        "repo",
+        { key: "npm-" },
+        "ghs_token"
+    );
+    expect(deleteMock).toHaveBeenCalledTimes(2);
+    expect(deleteMock).toHaveBeenCalledWith(3, "owner", "repo", "ghs_token");
+    expect(deleteMock).toHaveBeenCalledWith(4, "owner", "repo", "ghs_token");
+    expect(result).toEqual({ deletedCount: 1, freedBytes: megabyte });
+    expect(setOutputMock).toHaveBeenCalledWith("deleted-count", "1");
+    expect(setOutputMock).toHaveBeenCalledWith("freed-bytes", `${megabyte}`);
+    expect(failedMock).toHaveBeenCalledTimes(0);
+});
+
+test("prune with dry-run only lists what would be deleted", async () => {
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    jest.spyOn(actionUtils, "listCacheEntries").mockResolvedValue(entries);
+    const deleteMock = jest.spyOn(actionUtils, "deleteCacheById");
+    const infoMock = jest.spyOn(core, "info");
+
+    testUtils.setInput(Inputs.MaxAge, "15d");
+    testUtils.setInput(Inputs.DryRun, "true");
+
+    const result = await pruneImpl();
+
+    expect(deleteMock).toHaveBeenCalledTimes(0);
+    expect(result).toEqual({ deletedCount: 1, freedBytes: megabyte });
+    expect(infoMock).toHaveBeenCalledWith(
+        `Would delete cache entry npm-linux-d (id: 4, ref: refs/heads/feature/x, size: ~1 MB (1048576 B), last accessed: ${entries[3].last_accessed_at})`
+    );
+    expect(infoMock).toHaveBeenCalledWith(
+        "Would delete 1 cache entries, freeing ~1 MB (1048576 B)."
+    );
+});
+
+test("prune fails without a repository", async () => {
+    delete process.env["GITHUB_REPOSITORY"];
+    const failedMock = jest.spyOn(core, "setFailed");
+
+    await pruneImpl();
+
+    expect(failedMock).toHaveBeenCalledWith(
+        "The repository is unknown, GITHUB_REPOSITORY is not set."
+    );
+});
+
+test("prune requires a filter unless a pull request was closed", async () => {
+    const listMock = jest.spyOn(actionUtils, "listCacheEntries");
+    const failedMock = jest.spyOn(core, "setFailed");
+
+    await pruneImpl();
+
+    expect(listMock).toHaveBeenCalledTimes(0);
+    expect(failedMock).toHaveBeenCalledWith(
+        "Input Validation Error: At least one of key-prefix, ref, max-age, max-entries or max-total-size is required, unless a pull request was closed."
+    );
+});
+
+test("prune deletes the caches of a closed pull request", async () => {
+    const eventDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "event-"));
+    const eventPath = path.join(eventDirectory, "event.json");
+    fs.writeFileSync(
+        eventPath,
+        JSON.stringify({
+            action: "closed",
+            number: 7,
+            pull_request: { number: 7 }
+        })
+    );
+    process.env[Events.Key] = Events.PullRequest;
+    process.env[EventPathKey] = eventPath;
+
+    // The API filters by ref, but the selection does not rely on it
+    const listMock = jest
+        .spyOn(actionUtils, "listCacheEntries")
+        .mockResolvedValue(entries);
+    const deleteMock = jest
+        .spyOn(actionUtils, "deleteCacheById")
+        .mockResolvedValue(true);
+    const infoMock = jest.spyOn(core, "info");
+    const failedMock = jest.spyOn(core, "setFailed");
+
+    const result = await pruneImpl();
+
+    expect(listMock).toHaveBeenCalledWith(
+        "owner",
+        "repo",
+        { key: undefined, ref: "refs/pull/7/merge" },
+        undefined
+    );
+    expect(deleteMock).toHaveBeenCalledTimes(1);
+    expect(deleteMock).toHaveBeenCalledWith(3, "owner", "repo", undefined);
+    expect(result).toEqual({ deletedCount: 1, freedBytes: megabyte });
+    expect(infoMock).toHaveBeenCalledWith(
+        "Pruning the caches of closed pull request #7."
+    );
+    expect(infoMock).toHaveBeenCalledWith(
+        "Deleted 1 cache entries, freeing ~1 MB (1048576 B)."
+    );
+    expect(failedMock).toHaveBeenCalledTimes(0);
+
+    fs.rmSync(eventDirectory, { recursive: true, force: true });
+});
@@ -0,0 +1,44 @@
+import { matchesRefPatterns } from "../src/utils/refPattern";
+
+test("matchesRefPatterns matches full refs literally", () => {
+    expect(matchesRefPatterns("refs/heads/main", ["refs/heads/main"])).toBe(
+        true
+    );
+    expect(matchesRefPatterns("refs/heads/main2", ["refs/heads/main"])).toBe(
+        false
+    );
+    expect(matchesRefPatterns("refs/heads/a.b", ["refs/heads/a?b"])).toBe(
+        false
+    );
+});
+
+test("matchesRefPatterns matches * within a path segment", () => {
+    const patterns = ["refs/pull/*/merge"];
+    expect(matchesRefPatterns("refs/pull/12/merge", patterns)).toBe(true);
+    expect(matchesRefPatterns("refs/pull/12/head/merge", patterns)).toBe(false);
+    expect(matchesRefPatterns("refs/heads/feature/x", ["refs/heads/*"])).toBe(
+        false
+    );
+});
+
+test("matchesRefPatterns matches ** across path segments", () => {
+    expect(matchesRefPatterns("refs/heads/feature/x", ["refs/heads/**"])).toBe(
+        true
+    );
+    expect(matchesRefPatterns("refs/tags/v1", ["refs/heads/**"])).toBe(false);
+});
+
+test("matchesRefPatterns excludes refs with negated patterns", () => {
+    const patterns = ["refs/heads/**", "!refs/heads/main"];
+    expect(matchesRefPatterns("refs/heads/feature", patterns)).toBe(true);
+    expect(matchesRefPatterns("refs/heads/main", patterns)).toBe(false);
+
+    // A leading negation excludes from every ref
+    expect(matchesRefPatterns("refs/pull/1/merge", ["!refs/heads/**"])).toBe(
+        true
+    );
+    expect(matchesRefPatterns("refs/heads/main", ["!refs/heads/**"])).toBe(
+        false
+    );
+    expect(matchesRefPatterns("refs/heads/main", [])).toBe(false);
+});
@@ -179,7 +179,11 @@ test("restore with cache found for key", async () => {
     expect(stateMock).toHaveBeenCalledWith("CACHE_RESULT", key);
     expect(stateMock).toHaveBeenCalledTimes(2);
 
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(4);
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-match-type",
+        "exact"
+    );
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "true");
 
     expect(infoMock).toHaveBeenCalledWith(`Cache restored from key: ${key}`);
@@ -224,7 +228,15 @@ test("restore with cache found for restore key", async () => {
     expect(stateMock).toHaveBeenCalledWith("CACHE_RESULT", restoreKey);
     expect(stateMock).toHaveBeenCalledTimes(2);
 
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(5);
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-match-type",
+        "prefix"
+    );
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-restore-key-index",
+        "0"
+    );
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "false");
     expect(infoMock).toHaveBeenCalledWith(
         `Cache restored from key: ${restoreKey}`
@@ -266,7 +278,11 @@ test("Fail restore when fail on cache miss is enabled and primary + restore keys
     );
 
     expect(stateMock).toHaveBeenCalledWith("CACHE_KEY", key);
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(0);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(3);
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-match-type",
+        "miss"
+    );
 
     expect(failedMock).toHaveBeenCalledWith(
         `Failed to restore cache entry. Exiting as fail-on-cache-miss is set. Input key: ${key}`
@@ -312,7 +328,15 @@ test("restore when fail on cache miss is enabled and primary key doesn't match r
     expect(stateMock).toHaveBeenCalledWith("CACHE_RESULT", restoreKey);
     expect(stateMock).toHaveBeenCalledTimes(2);
 
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(5);
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-match-type",
+        "prefix"
+    );
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-restore-key-index",
+        "0"
+    );
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "false");
 
     expect(infoMock).toHaveBeenCalledWith(
@@ -1,11 +1,17 @@
 import * as cache from "@actions/cache";
+import * as cacheHttpClient from "@actions/cache/lib/internal/cacheHttpClient";
 import * as core from "@actions/core";
+import * as fs from "fs";
 import nock from "nock";
+import * as os from "os";
 
+import * as archiveUtils from "../src/backends/archive";
+import { LocalCacheBackend } from "../src/backends/localBackend";
 import { Events, Inputs, RefKey } from "../src/constants";
 import { restoreImpl } from "../src/restoreImpl";
 import { StateProvider } from "../src/stateProvider";
 import * as actionUtils from "../src/utils/actionUtils";
+import * as manifest from "../src/utils/manifest";
 import * as testUtils from "../src/utils/testUtils";
 
 jest.mock("../src/utils/actionUtils");
@@ -85,7 +91,7 @@ test("restore without AC available should no-op", async () => {
     await restoreImpl(new StateProvider());
 
     expect(restoreCacheMock).toHaveBeenCalledTimes(0);
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(2);
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "false");
 });
 
@@ -101,7 +107,7 @@ test("restore on GHES without AC available should no-op", async () => {
     await restoreImpl(new StateProvider());
 
     expect(restoreCacheMock).toHaveBeenCalledTimes(0);
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(2);
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "false");
 });
 
@@ -139,7 +145,11 @@ test("restore on GHES with AC available ", async () => {
     );
 
     expect(stateMock).toHaveBeenCalledWith("CACHE_KEY", key);
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(4);
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-match-type",
+        "exact"
+    );
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "true");
 
     expect(infoMock).toHaveBeenCalledWith(`Cache restored from key: ${key}`);
@@ -287,6 +297,73 @@ test("restore with no cache found", async () => {
     );
 });
 
+test("restore with no cache found sets cache-result but not cache-hit", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({
+        path: path,
+        key
+    });
+
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(undefined);
+    });
+
+    await restoreImpl(new StateProvider());
+
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "miss");
+    expect(setOutputMock).not.toHaveBeenCalledWith(
+        "cache-hit",
+        expect.anything()
+    );
+});
+
+test("restore with cache-hit-false-on-miss sets cache-hit to false on a miss", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({
+        path: path,
+        key
+    });
+    testUtils.setInput(Inputs.CacheHitFalseOnMiss, "true");
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(undefined);
+    });
+
+    await restoreImpl(new StateProvider());
+
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit", "false");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "miss");
+    expect(failedMock).toHaveBeenCalledTimes(0);
+});
+
+test("restore with cache groups and cache-hit-false-on-miss sets cache-hit to false when every group missed", async () => {
+    testUtils.setInput(Inputs.CacheHitFalseOnMiss, "true");
+    testUtils.setInput(
+        Inputs.Caches,
+        JSON.stringify([
+            { id: "npm", key: "npm-test", path: "~/.npm" },
+            { id: "pip", key: "pip-test", path: "~/.cache/pip" }
+        ])
+    );
+
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    jest.spyOn(cache, "restoreCache").mockImplementation(() =>
+        Promise.resolve(undefined)
+    );
+
+    await restoreImpl(new StateProvider());
+
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit-npm", "false");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit-pip", "false");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit", "false");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "miss");
+});
+
 test("restore with restore keys and no cache found", async () => {
     const path = "node_modules";
     const key = "node-test";
@@ -361,7 +438,11 @@ test("restore with cache found for key", async () => {
     );
 
     expect(stateMock).toHaveBeenCalledWith("CACHE_KEY", key);
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(4);
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-match-type",
+        "exact"
+    );
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "true");
 
     expect(infoMock).toHaveBeenCalledWith(`Cache restored from key: ${key}`);
@@ -403,7 +484,15 @@ test("restore with cache found for restore key", async () => {
     );
 
     expect(stateMock).toHaveBeenCalledWith("CACHE_KEY", key);
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(5);
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-match-type",
+        "prefix"
+    );
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-restore-key-index",
+        "0"
+    );
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "false");
     expect(infoMock).toHaveBeenCalledWith(
         `Cache restored from key: ${restoreKey}`
@@ -411,6 +500,548 @@ test("restore with cache found for restore key", async () => {
     expect(failedMock).toHaveBeenCalledTimes(0);
 });
 
+test("restore sets the metadata of the restored entry", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    const restoreKeys = ["node-lock-", "node-"];
+    const matchedKey = "node-abc";
+    testUtils.setInputs({
+        path: path,
+        key,
+        restoreKeys
+    });
+    // The github backend only looks up the entry for fail-on-cache-older-than
+    testUtils.setInput(Inputs.FailOnCacheOlderThan, "7d");
+    testUtils.setInput(Inputs.Token, "token");
+    process.env["GITHUB_REPOSITORY"] = "owner/repo";
+
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(matchedKey);
+    });
+    const listCacheEntriesMock = jest
+        .spyOn(actionUtils, "listCacheEntries")
+        .mockResolvedValueOnce([
+            {
+                id: 1,
+                key: matchedKey,
+                size_in_bytes: 1024,
+                created_at: "2024-01-02T03:04:05.000Z"
+            }
+        ]);
+    jest.spyOn(Date, "now")
+        .mockReturnValueOnce(1000)
+        .mockReturnValueOnce(3500)
+        .mockReturnValue(new Date("2024-01-03T00:00:00.000Z").getTime());
+
+    await restoreImpl(new StateProvider());
+    delete process.env["GITHUB_REPOSITORY"];
+
+    expect(listCacheEntriesMock).toHaveBeenCalledWith(
+        "owner",
+        "repo",
+        { key: matchedKey },
+        "token"
+    );
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit", "false");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "partial");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-match-type", "prefix");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-restore-key-index", "1");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-size", "1024");
+    expect(setOutputMock).toHaveBeenCalledWith(
+        "cache-download-duration",
+        "2500"
+    );
+    expect(setOutputMock).toHaveBeenCalledWith(
+        "cache-created-at",
+        "2024-01-02T03:04:05.000Z"
+    );
+});
+
+test("restore sets disk-cache-hit only when disk-cache-path is set", async () => {
+    testUtils.setInputs({
+        path: "node_modules",
+        key: "node-test"
+    });
+    const cachePath = fs.mkdtempSync(`${os.tmpdir()}/cache-`);
+    testUtils.setInput(Inputs.Backend, "local");
+    testUtils.setInput(Inputs.LocalPath, cachePath);
+    const setOutputMock = jest.spyOn(core, "setOutput");
+
+    await restoreImpl(new StateProvider());
+
+    expect(setOutputMock).not.toHaveBeenCalledWith(
+        "disk-cache-hit",
+        expect.anything()
+    );
+
+    testUtils.setInput(Inputs.DiskCachePath, `${cachePath}/disk`);
+
+    await restoreImpl(new StateProvider());
+
+    expect(setOutputMock).toHaveBeenCalledWith("disk-cache-hit", "false");
+    fs.rmSync(cachePath, { recursive: true, force: true });
+});
+
+test("restore does not look up the restored entry with the github backend by default", async () => {
+    const key = "node-test";
+    testUtils.setInputs({
+        path: "node_modules",
+        key
+    });
+    testUtils.setInput(Inputs.Token, "token");
+    process.env["GITHUB_REPOSITORY"] = "owner/repo";
+
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(key);
+    });
+    const listCacheEntriesMock = jest.spyOn(actionUtils, "listCacheEntries");
+
+    await restoreImpl(new StateProvider());
+    delete process.env["GITHUB_REPOSITORY"];
+
+    expect(listCacheEntriesMock).toHaveBeenCalledTimes(0);
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit", "true");
+    expect(setOutputMock).not.toHaveBeenCalledWith(
+        "cache-size",
+        expect.anything()
+    );
+});
+
+test("restore with restore-refs restores an entry of the first matching ref", async () => {
+    const path = "node_modules";
+    testUtils.setInputs({
+        path: path,
+        key: "node-test",
+        restoreKeys: ["node-"]
+    });
+    testUtils.setInput(Inputs.Backend, "local");
+    testUtils.setInput(Inputs.LocalPath, "/tmp/cache");
+    testUtils.setInput(
+        Inputs.RestoreRefs,
+        "refs/heads/release/*\nrefs/heads/main"
+    );
+
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    jest.spyOn(LocalCacheBackend.prototype, "findEntries").mockResolvedValue([
+        {
+            key: "node-main",
+            ref: "refs/heads/main",
+            createdAt: new Date("2024-01-03T00:00:00.000Z")
+        },
+        {
+            key: "node-release",
+            ref: "refs/heads/release/1.0",
+            createdAt: new Date("2024-01-02T00:00:00.000Z")
+        },
+        { key: "node-unknown", createdAt: new Date("2024-01-04T00:00:00.000Z") }
+    ]);
+    const restoreMock = jest
+        .spyOn(LocalCacheBackend.prototype, "restore")
+        .mockResolvedValue("node-release");
+
+    expect(await restoreImpl(new StateProvider())).toBe("node-release");
+
+    expect(restoreMock).toHaveBeenCalledTimes(1);
+    expect(restoreMock).toHaveBeenCalledWith(
+        [path],
+        "node-release",
+        [],
+        { lookupOnly: false },
+        false
+    );
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "partial");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-restore-key-index", "0");
+});
+
+test("restore with restore-refs prefers entries of the current ref", async () => {
+    testUtils.setInputs({
+        path: "node_modules",
+        key: "node-test",
+        restoreKeys: ["node-"]
+    });
+    testUtils.setInput(Inputs.Backend, "local");
+    testUtils.setInput(Inputs.LocalPath, "/tmp/cache");
+    testUtils.setInput(Inputs.RestoreRefs, "refs/heads/main");
+
+    jest.spyOn(LocalCacheBackend.prototype, "findEntries").mockResolvedValue([
+        {
+            key: "node-main",
+            ref: "refs/heads/main",
+            createdAt: new Date("2024-01-03T00:00:00.000Z")
+        },
+        {
+            key: "node-feature",
+            ref: "refs/heads/feature-branch",
+            createdAt: new Date("2024-01-02T00:00:00.000Z")
+        }
+    ]);
+    const restoreMock = jest
+        .spyOn(LocalCacheBackend.prototype, "restore")
+        .mockResolvedValue("node-feature");
+
+    expect(await restoreImpl(new StateProvider())).toBe("node-feature");
+    expect(restoreMock).toHaveBeenCalledWith(
+        ["node_modules"],
+        "node-feature",
+        [],
+        { lookupOnly: false },
+        false
+    );
+});
+
+test("restore with restore-refs restores an entry of the primary key whatever its ref", async () => {
+    testUtils.setInputs({
+        path: "node_modules",
+        key: "node-test",
+        restoreKeys: ["node-"]
+    });
+    testUtils.setInput(Inputs.Backend, "local");
+    testUtils.setInput(Inputs.LocalPath, "/tmp/cache");
+    testUtils.setInput(Inputs.RestoreRefs, "refs/heads/main");
+
+    jest.spyOn(LocalCacheBackend.prototype, "findEntries").mockResolvedValue([
+        { key: "node-main", ref: "refs/heads/main" },
+        { key: "node-test", ref: "refs/heads/other" }
+    ]);
+    const restoreMock = jest
+        .spyOn(LocalCacheBackend.prototype, "restore")
+        .mockResolvedValue("node-test");
+
+    expect(await restoreImpl(new StateProvider())).toBe("node-test");
+    expect(restoreMock).toHaveBeenCalledTimes(1);
+    expect(restoreMock).toHaveBeenCalledWith(
+        ["node_modules"],
+        "node-test",
+        ["node-"],
+        { lookupOnly: false },
+        false
+    );
+});
+
+test("restore with restore-refs is ignored with the github backend", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({ path, key });
+    testUtils.setInput(Inputs.RestoreRefs, "refs/heads/release/*");
+
+    const logWarningMock = jest.spyOn(actionUtils, "logWarning");
+    const restoreCacheMock = jest
+        .spyOn(cache, "restoreCache")
+        .mockResolvedValue(undefined);
+
+    expect(await restoreImpl(new StateProvider())).toBeUndefined();
+
+    expect(logWarningMock).toHaveBeenCalledWith(
+        expect.stringContaining(
+            "restore-refs is ignored with the github backend"
+        )
+    );
+    expect(restoreCacheMock).toHaveBeenCalledTimes(1);
+    expect(restoreCacheMock).toHaveBeenCalledWith(
+        [path],
+        key,
+        [],
+        { lookupOnly: false },
+        false
+    );
+});
+
+test("restore with dry-run only looks up the entry it would restore", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({
+        path: path,
+        key,
+        restoreKeys: ["node-"]
+    });
+    testUtils.setInput(Inputs.DryRun, "true");
+
+    const infoMock = jest.spyOn(core, "info");
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const restoreCacheMock = jest
+        .spyOn(cache, "restoreCache")
+        .mockResolvedValueOnce("node-abc");
+
+    expect(await restoreImpl(new StateProvider())).toBe("node-abc");
+
+    expect(restoreCacheMock).toHaveBeenCalledWith(
+        [path],
+        key,
+        ["node-"],
+        { lookupOnly: true },
+        false
+    );
+    expect(infoMock).toHaveBeenCalledWith(
+        "Dry run: would restore cache from key: node-abc"
+    );
+    expect(setOutputMock).toHaveBeenCalledWith("dry-run-plan", "Would restore");
+});
+
+test("restore with retries retries a failed download and reports the attempts", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({
+        path: path,
+        key
+    });
+    testUtils.setInput(Inputs.Retries, "1");
+    testUtils.setInput(Inputs.RetryBackoff, "0");
+
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const failedMock = jest.spyOn(core, "setFailed");
+    // With retries, the backend downloads the archive itself to see why a download failed
+    jest.spyOn(cacheHttpClient, "getCacheEntry").mockResolvedValue({
+        cacheKey: key,
+        archiveLocation: "https://cache/node-test"
+    });
+    const downloadMock = jest
+        .spyOn(cacheHttpClient, "downloadCache")
+        .mockRejectedValueOnce(
+            Object.assign(new Error("Service Unavailable"), {
+                statusCode: 503
+            })
+        )
+        .mockImplementationOnce(async (archiveLocation, archivePath) =>
+            fs.writeFileSync(archivePath, archiveLocation)
+        );
+    jest.spyOn(archiveUtils, "extractArchive").mockResolvedValue();
+
+    expect(await restoreImpl(new StateProvider())).toBe(key);
+
+    expect(downloadMock).toHaveBeenCalledTimes(2);
+    expect(setOutputMock).toHaveBeenCalledWith("restore-attempts", "2");
+    expect(failedMock).toHaveBeenCalledTimes(0);
+});
+
+test("restore with retries does not retry a miss", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({
+        path: path,
+        key
+    });
+    testUtils.setInput(Inputs.Retries, "1");
+    testUtils.setInput(Inputs.RetryBackoff, "0");
+
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const getCacheEntryMock = jest
+        .spyOn(cacheHttpClient, "getCacheEntry")
+        .mockResolvedValue(null);
+
+    expect(await restoreImpl(new StateProvider())).toBeUndefined();
+
+    expect(getCacheEntryMock).toHaveBeenCalledTimes(1);
+    expect(setOutputMock).toHaveBeenCalledWith("restore-attempts", "1");
+});
+
+test("restore with timeout abandons a hung restore and reports a miss", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({
+        path: path,
+        key
+    });
+    testUtils.setInput(Inputs.Timeout, "0.01s");
+
+    const logWarningMock = jest.spyOn(actionUtils, "logWarning");
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const stateMock = jest.spyOn(core, "saveState");
+    const failedMock = jest.spyOn(core, "setFailed");
+    jest.spyOn(cache, "restoreCache").mockReturnValueOnce(
+        new Promise(() => undefined)
+    );
+
+    expect(await restoreImpl(new StateProvider())).toBeUndefined();
+
+    expect(logWarningMock).toHaveBeenCalledWith(
+        `Cache restore timed out after 0.01 s, abandoned restoring the cache with key ${key} into ${path}. It is reported as a cache miss.`
+    );
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "miss");
+    // The abandoned restore may still extract files, which the post step must not save
+    expect(stateMock).toHaveBeenCalledWith("RESTORE_TIMED_OUT", "true");
+    expect(failedMock).toHaveBeenCalledTimes(0);
+});
+
+test("restore with fail-on-cache-miss set to exact fails on a restore key match", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    const restoreKey = "node-";
+    testUtils.setInputs({
+        path: path,
+        key,
+        restoreKeys: [restoreKey]
+    });
+    testUtils.setInput(Inputs.FailOnCacheMiss, "exact");
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(restoreKey);
+    });
+
+    await restoreImpl(new StateProvider());
+
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit", "false");
+    expect(failedMock).toHaveBeenCalledWith(
+        `Failed to restore cache entry. Exiting as fail-on-cache-miss is set to exact and the entry was restored from key ${restoreKey}. Input key: ${key}`
+    );
+});
+
+test("restore with fail-on-cache-miss set to exact succeeds on an exact match", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({
+        path: path,
+        key,
+        restoreKeys: ["node-"]
+    });
+    testUtils.setInput(Inputs.FailOnCacheMiss, "EXACT");
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(key);
+    });
+
+    expect(await restoreImpl(new StateProvider())).toBe(key);
+    expect(failedMock).toHaveBeenCalledTimes(0);
+});
+
+test("restore with an invalid fail-on-cache-miss value fails", async () => {
+    testUtils.setInputs({
+        path: "node_modules",
+        key: "node-test"
+    });
+    testUtils.setInput(Inputs.FailOnCacheMiss, "always");
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    const restoreCacheMock = jest.spyOn(cache, "restoreCache");
+
+    await restoreImpl(new StateProvider());
+
+    expect(restoreCacheMock).toHaveBeenCalledTimes(0);
+    expect(failedMock).toHaveBeenCalledWith(
+        "Input Validation Error: fail-on-cache-miss must be one of false, true, exact."
+    );
+});
+
+test("restore with save-on passes it to the post step", async () => {
+    testUtils.setInputs({
+        path: "node_modules",
+        key: "node-test"
+    });
+    testUtils.setInput(Inputs.SaveOn, "Failure");
+
+    const stateMock = jest.spyOn(core, "saveState");
+    const exportVariableMock = jest
+        .spyOn(core, "exportVariable")
+        .mockImplementation(() => undefined);
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(undefined);
+    });
+
+    await restoreImpl(new StateProvider());
+
+    expect(stateMock).toHaveBeenCalledWith("SAVE_ON", "failure");
+    // Lets the post step run for a failed job
+    expect(exportVariableMock).toHaveBeenCalledWith(
+        "CACHE_SAVE_ON_ANY_STATUS",
+        "true"
+    );
+});
+
+test("restore with save-on success keeps the post step to successful jobs", async () => {
+    testUtils.setInputs({
+        path: "node_modules",
+        key: "node-test"
+    });
+    testUtils.setInput(Inputs.SaveOn, "success");
+
+    const exportVariableMock = jest
+        .spyOn(core, "exportVariable")
+        .mockImplementation(() => undefined);
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(undefined);
+    });
+
+    await restoreImpl(new StateProvider());
+
+    expect(exportVariableMock).toHaveBeenCalledTimes(0);
+});
+
+test("restore with an invalid save-on value fails", async () => {
+    testUtils.setInputs({
+        path: "node_modules",
+        key: "node-test"
+    });
+    testUtils.setInput(Inputs.SaveOn, "cancelled");
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    const restoreCacheMock = jest.spyOn(cache, "restoreCache");
+
+    await restoreImpl(new StateProvider());
+
+    expect(restoreCacheMock).toHaveBeenCalledTimes(0);
+    expect(failedMock).toHaveBeenCalledWith(
+        "Input Validation Error: save-on must be one of success, failure, always."
+    );
+});
+
+// Restores `node-test` from an entry created at `createdAt`, seven days being the limit
+async function restoreWithMaxAge(createdAt?: string): Promise<void> {
+    const key = "node-test";
+    testUtils.setInputs({
+        path: "node_modules",
+        key
+    });
+    testUtils.setInput(Inputs.FailOnCacheOlderThan, "7d");
+    testUtils.setInput(Inputs.Token, "token");
+    process.env["GITHUB_REPOSITORY"] = "owner/repo";
+    jest.spyOn(Date, "now").mockReturnValue(
+        new Date("2024-01-10T00:00:00.000Z").getTime()
+    );
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() => {
+        return Promise.resolve(key);
+    });
+    jest.spyOn(actionUtils, "listCacheEntries").mockResolvedValueOnce(
+        createdAt ? [{ key, created_at: createdAt }] : []
+    );
+
+    await restoreImpl(new StateProvider());
+    delete process.env["GITHUB_REPOSITORY"];
+}
+
+test("restore with fail-on-cache-older-than succeeds when the entry is recent enough", async () => {
+    const failedMock = jest.spyOn(core, "setFailed");
+
+    await restoreWithMaxAge("2024-01-04T00:00:00.000Z");
+
+    expect(failedMock).toHaveBeenCalledTimes(0);
+});
+
+test("restore with fail-on-cache-older-than fails when the entry is too old", async () => {
+    const failedMock = jest.spyOn(core, "setFailed");
+    const setOutputMock = jest.spyOn(core, "setOutput");
+
+    await restoreWithMaxAge("2024-01-02T00:00:00.000Z");
+
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit", "true");
+    expect(failedMock).toHaveBeenCalledWith(
+        "Failed to restore cache entry. Exiting as fail-on-cache-older-than is set and the entry restored from key node-test was created at 2024-01-02T00:00:00.000Z."
+    );
+});
+
+test("restore with fail-on-cache-older-than fails when the creation time is unknown", async () => {
+    const failedMock = jest.spyOn(core, "setFailed");
+
+    await restoreWithMaxAge();
+
+    expect(failedMock).toHaveBeenCalledWith(
+        "Failed to restore cache entry. Exiting as fail-on-cache-older-than is set and the creation time of the entry restored from key node-test is unknown."
+    );
+});
+
 test("restore with lookup-only set", async () => {
     const path = "node_modules";
     const key = "node-test";
@@ -447,7 +1078,11 @@ test("restore with lookup-only set", async () => {
     expect(stateMock).toHaveBeenCalledWith("CACHE_RESULT", key);
     expect(stateMock).toHaveBeenCalledTimes(2);
 
-    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(1);
+    expect(setCacheHitOutputMock).toHaveBeenCalledTimes(4);
+    expect(setCacheHitOutputMock).toHaveBeenCalledWith(
+        "cache-match-type",
+        "exact"
+    );
     expect(setCacheHitOutputMock).toHaveBeenCalledWith("cache-hit", "true");
 
     expect(infoMock).toHaveBeenCalledWith(
@@ -471,3 +1106,257 @@ test("restore failure with earlyExit should call process exit", async () => {
     );
     expect(processExitMock).toHaveBeenCalledWith(1);
 });
+
+test("restore with cache groups restores every group independently", async () => {
+    testUtils.setInput(
+        Inputs.Caches,
+        JSON.stringify([
+            { id: "npm", key: "npm-test", path: "~/.npm" },
+            {
+                id: "pip",
+                key: "pip-test",
+                path: "~/.cache/pip",
+                "restore-keys": "pip-"
+            },
+            { id: "cargo", key: "cargo-test", path: "~/.cargo" }
+        ])
+    );
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    const stateMock = jest.spyOn(core, "saveState");
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const restoreCacheMock = jest
+        .spyOn(cache, "restoreCache")
+        .mockImplementationOnce(() => Promise.resolve("npm-test"))
+        .mockImplementationOnce(() => Promise.resolve("pip-"))
+        .mockImplementationOnce(() => Promise.resolve(undefined));
+
+    await restoreImpl(new StateProvider());
+
+    expect(restoreCacheMock).toHaveBeenCalledTimes(3);
+    expect(restoreCacheMock).toHaveBeenNthCalledWith(
+        2,
+        ["~/.cache/pip"],
+        "pip-test",
+        ["pip-"],
+        { lookupOnly: false },
+        false
+    );
+
+    expect(stateMock).toHaveBeenCalledWith("CACHE_KEY_npm", "npm-test");
+    expect(stateMock).toHaveBeenCalledWith("CACHE_RESULT_npm", "npm-test");
+    expect(stateMock).toHaveBeenCalledWith("CACHE_KEY_pip", "pip-test");
+    expect(stateMock).toHaveBeenCalledWith("CACHE_RESULT_pip", "pip-");
+    expect(stateMock).toHaveBeenCalledWith("CACHE_KEY_cargo", "cargo-test");
+    expect(stateMock).toHaveBeenCalledTimes(5);
+
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit-npm", "true");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit-pip", "false");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit", "false");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result-npm", "exact");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result-pip", "partial");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result-cargo", "miss");
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "partial");
+    expect(setOutputMock).toHaveBeenCalledTimes(14);
+    expect(failedMock).toHaveBeenCalledTimes(0);
+});
+
+test("restore with cache groups and fail-on-cache-miss fails after restoring the other groups", async () => {
+    testUtils.setInput(Inputs.FailOnCacheMiss, "true");
+    testUtils.setInput(
+        Inputs.Caches,
+        JSON.stringify([
+            { id: "npm", key: "npm-test", path: "~/.npm" },
+            { id: "pip", key: "pip-test", path: "~/.cache/pip" }
+        ])
+    );
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const restoreCacheMock = jest
+        .spyOn(cache, "restoreCache")
+        .mockImplementationOnce(() => Promise.resolve(undefined))
+        .mockImplementationOnce(() => Promise.resolve("pip-test"));
+
+    await restoreImpl(new StateProvider());
+
+    expect(restoreCacheMock).toHaveBeenCalledTimes(2);
+    expect(setOutputMock).toHaveBeenCalledWith("cache-hit-pip", "true");
+    expect(failedMock).toHaveBeenCalledWith(
+        "[npm] Failed to restore cache entry. Exiting as fail-on-cache-miss is set. Input key: npm-test"
+    );
+});
+
+test("restore evaluates a templated key", async () => {
+    process.env["RUNNER_OS"] = "Linux";
+    process.env["NODE_VERSION"] = "20";
+    testUtils.setInputs({
+        path: "node_modules",
+        key: "{{ runner.os }}-node-{{ env.NODE_VERSION }}",
+        restoreKeys: ["Linux-node-"]
+    });
+
+    const stateMock = jest.spyOn(core, "saveState");
+    const restoreCacheMock = jest
+        .spyOn(cache, "restoreCache")
+        .mockImplementationOnce(() => Promise.resolve("Linux-node-20"));
+
+    await restoreImpl(new StateProvider());
+
+    expect(restoreCacheMock).toHaveBeenCalledWith(
+        ["node_modules"],
+        "Linux-node-20",
+        ["Linux-node-"],
+        { lookupOnly: false },
+        false
+    );
+    expect(stateMock).toHaveBeenCalledWith("CACHE_KEY", "Linux-node-20");
+
+    delete process.env["RUNNER_OS"];
+    delete process.env["NODE_VERSION"];
+});
+
+test("restore with unchanged-check records a manifest of the restored files", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({ path, key, restoreKeys: ["node-"] });
+    testUtils.setInput(Inputs.UnchangedCheck, "metadata");
+
+    const stateMock = jest.spyOn(core, "saveState");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() =>
+        Promise.resolve("node-")
+    );
+    const computeManifestDigestMock = jest
+        .spyOn(manifest, "computeManifestDigest")
+        .mockImplementationOnce(() => Promise.resolve("digest"));
+
+    await restoreImpl(new StateProvider());
+
+    expect(computeManifestDigestMock).toHaveBeenCalledWith(
+        [path],
+        manifest.ManifestMode.Metadata
+    );
+    expect(stateMock).toHaveBeenCalledWith("CACHE_MANIFEST", "digest");
+});
+
+test("restore with checksums verifies the restored files", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({ path, key });
+    testUtils.setInput(Inputs.Checksums, "true");
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    const restoreCacheMock = jest
+        .spyOn(cache, "restoreCache")
+        .mockImplementationOnce(() => Promise.resolve(key));
+    const verifyMock = jest
+        .spyOn(manifest, "verifyChecksumManifest")
+        .mockResolvedValueOnce([]);
+    const removeManifestMock = jest
+        .spyOn(manifest, "removeChecksumManifest")
+        .mockImplementationOnce(() => undefined);
+
+    expect(await restoreImpl(new StateProvider())).toBe(key);
+
+    expect(restoreCacheMock).toHaveBeenCalledWith(
+        [".cache-checksums/cache.json", path],
+        key,
+        [],
+        { lookupOnly: false },
+        false
+    );
+    expect(verifyMock).toHaveBeenCalledWith("");
+    expect(removeManifestMock).toHaveBeenCalledWith("");
+    expect(failedMock).toHaveBeenCalledTimes(0);
+});
+
+test("restore with checksums and checksum-mismatch set to delete reports a miss", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({ path, key });
+    testUtils.setInput(Inputs.Checksums, "true");
+    testUtils.setInput(Inputs.ChecksumMismatch, "delete");
+
+    const stateMock = jest.spyOn(core, "saveState");
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const logWarningMock = jest.spyOn(actionUtils, "logWarning");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() =>
+        Promise.resolve(key)
+    );
+    jest.spyOn(manifest, "verifyChecksumManifest").mockResolvedValueOnce([
+        "node_modules/a.js"
+    ]);
+    jest.spyOn(manifest, "removeChecksumManifest").mockImplementationOnce(
+        () => undefined
+    );
+    const removeFilesMock = jest
+        .spyOn(manifest, "removeWorkspaceFiles")
+        .mockImplementationOnce(() => undefined);
+
+    expect(await restoreImpl(new StateProvider())).toBeUndefined();
+
+    expect(removeFilesMock).toHaveBeenCalledWith(["node_modules/a.js"]);
+    expect(logWarningMock).toHaveBeenCalledWith(
+        `Checksum verification failed for 1 of the files restored from key ${key}: node_modules/a.js. These files were deleted and the cache is reported as not found.`
+    );
+    expect(stateMock).not.toHaveBeenCalledWith("CACHE_RESULT", key);
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "miss");
+    expect(setOutputMock).not.toHaveBeenCalledWith(
+        "cache-hit",
+        expect.anything()
+    );
+});
+
+test("restore with checksums handles a missing manifest like a mismatch", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({ path, key });
+    testUtils.setInput(Inputs.Checksums, "true");
+    testUtils.setInput(Inputs.ChecksumMismatch, "delete");
+
+    const setOutputMock = jest.spyOn(core, "setOutput");
+    const logWarningMock = jest.spyOn(actionUtils, "logWarning");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() =>
+        Promise.resolve(key)
+    );
+    jest.spyOn(manifest, "verifyChecksumManifest").mockResolvedValueOnce(
+        undefined
+    );
+    jest.spyOn(manifest, "removeChecksumManifest").mockImplementationOnce(
+        () => undefined
+    );
+    const removeFilesMock = jest.spyOn(manifest, "removeWorkspaceFiles");
+
+    expect(await restoreImpl(new StateProvider())).toBeUndefined();
+
+    expect(removeFilesMock).not.toHaveBeenCalled();
+    expect(logWarningMock).toHaveBeenCalledWith(
+        `The cache entry restored from key ${key} has no checksum manifest, the restored files could not be verified. The cache is reported as not found.`
+    );
+    expect(setOutputMock).toHaveBeenCalledWith("cache-result", "miss");
+});
+
+test("restore with checksums and checksum-mismatch set to fail fails", async () => {
+    const path = "node_modules";
+    const key = "node-test";
+    testUtils.setInputs({ path, key });
+    testUtils.setInput(Inputs.Checksums, "true");
+    testUtils.setInput(Inputs.ChecksumMismatch, "fail");
+
+    const failedMock = jest.spyOn(core, "setFailed");
+    jest.spyOn(cache, "restoreCache").mockImplementationOnce(() =>
+        Promise.resolve(key)
+    );
+    jest.spyOn(manifest, "verifyChecksumManifest").mockResolvedValueOnce([
+        "node_modules/a.js"
+    ]);
+    jest.spyOn(manifest, "removeChecksumManifest").mockImplementationOnce(
+        () => undefined
+    );
+
+    await restoreImpl(new StateProvider());
+
+    expect(failedMock).toHaveBeenCalledWith(
+        `Checksum verification failed for 1 of the files restored from key ${key}: node_modules/a.js`
+    );
+});
@@ -92,7 +92,9 @@ test("restore with no cache found", async () => {
     );
 
     expect(outputMock).toHaveBeenCalledWith("cache-primary-key", key);
-    expect(outputMock).toHaveBeenCalledTimes(1);
+    expect(outputMock).toHaveBeenCalledTimes(4);
+    expect(outputMock).toHaveBeenCalledWith("cache-result", "miss");
+    expect(outputMock).toHaveBeenCalledWith("cache-match-type", "miss");
     expect(failedMock).toHaveBeenCalledTimes(0);
 
     expect(infoMock).toHaveBeenCalledWith(
@@ -176,7 +178,9 @@ test("restore with cache found for key", async () => {
     expect(outputMock).toHaveBeenCalledWith("cache-hit", "true");
     expect(outputMock).toHaveBeenCalledWith("cache-matched-key", key);
 
-    expect(outputMock).toHaveBeenCalledTimes(3);
+    expect(outputMock).toHaveBeenCalledTimes(6);
+    expect(outputMock).toHaveBeenCalledWith("cache-result", "exact");
+    expect(outputMock).toHaveBeenCalledWith("cache-match-type", "exact");
 
     expect(infoMock).toHaveBeenCalledWith(`Cache restored from key: ${key}`);
     expect(failedMock).toHaveBeenCalledTimes(0);
@@ -219,7 +223,10 @@ test("restore with cache found for restore key", async () => {
     expect(outputMock).toHaveBeenCalledWith("cache-hit", "false");
     expect(outputMock).toHaveBeenCalledWith("cache-matched-key", restoreKey);
 
-    expect(outputMock).toHaveBeenCalledTimes(3);
+    expect(outputMock).toHaveBeenCalledTimes(7);
+    expect(outputMock).toHaveBeenCalledWith("cache-result", "partial");
+    expect(outputMock).toHaveBeenCalledWith("cache-match-type", "prefix");
+    expect(outputMock).toHaveBeenCalledWith("cache-restore-key-index", "0");
 
     expect(infoMock).toHaveBeenCalledWith(
         `Cache restored from key: ${restoreKey}`
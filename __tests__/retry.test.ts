@@ -0,0 +1,117 @@
+import * as core from "@actions/core";
+
+import { Inputs } from "../src/constants";
+import {
+    getAttemptCount,
+    getBackoffDelay,
+    getRetryPolicy,
+    isTransientError,
+    withRetries
+} from "../src/utils/retry";
+import * as testUtils from "../src/utils/testUtils";
+
+function createError(properties: Record<string, unknown>): Error {
+    return Object.assign(new Error("Request failed"), properties);
+}
+
+beforeEach(() => {
+    jest.spyOn(core, "info").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    testUtils.clearInputs();
+    jest.restoreAllMocks();
+});
+
+test("getRetryPolicy defaults to no retries", () => {
+    expect(getRetryPolicy()).toEqual({ retries: 0, backoffInMs: 1000 });
+});
+
+test("getRetryPolicy parses the retries and the backoff", () => {
+    testUtils.setInput(Inputs.Retries, "3");
+    testUtils.setInput(Inputs.RetryBackoff, "0.5s");
+
+    expect(getRetryPolicy()).toEqual({ retries: 3, backoffInMs: 500 });
+});
+
+test("getRetryPolicy rejects an invalid number of retries", () => {
+    testUtils.setInput(Inputs.Retries, "many");
+
+    expect(() => getRetryPolicy()).toThrow(
+        "Input Validation Error: retries must be a number of retries, got many."
+    );
+});
+
+test("isTransientError classifies rate limits, server and connection errors as transient", () => {
+    expect(isTransientError(createError({ status: 429 }))).toBe(true);
+    expect(isTransientError(createError({ status: 503 }))).toBe(true);
+    expect(isTransientError(createError({ statusCode: 502 }))).toBe(true);
+    expect(isTransientError(createError({ code: "ECONNRESET" }))).toBe(true);
+
+    expect(isTransientError(createError({ status: 404 }))).toBe(false);
+    expect(isTransientError(createError({ statusCode: 403 }))).toBe(false);
+    expect(isTransientError(createError({ code: "ENOENT" }))).toBe(false);
+    expect(isTransientError(new Error("Unable to reserve cache"))).toBe(false);
+});
+
+test("getBackoffDelay doubles the backoff and adds up to half of it at random", () => {
+    expect(getBackoffDelay(1000, 1, () => 0)).toBe(1000);
+    expect(getBackoffDelay(1000, 3, () => 0)).toBe(4000);
+    expect(getBackoffDelay(1000, 3, () => 1)).toBe(6000);
+});
+
+test("withRetries retries transient errors until the operation succeeds", async () => {
+    testUtils.setInput(Inputs.Retries, "2");
+    testUtils.setInput(Inputs.RetryBackoff, "0");
+    const operation = jest
+        .fn()
+        .mockRejectedValueOnce(createError({ status: 500 }))
+        .mockResolvedValueOnce("Linux-node-abc");
+    const attemptsBefore = getAttemptCount("Restoring the cache");
+
+    expect(await withRetries("Restoring the cache", operation)).toBe(
+        "Linux-node-abc"
+    );
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(getAttemptCount("Restoring the cache") - attemptsBefore).toBe(2);
+    expect(core.info).toHaveBeenCalledWith(
+        "Restoring the cache failed on attempt 1 of 3, retrying in 0 ms: Request failed"
+    );
+});
+
+test("getAttemptCount only counts the attempts of the given operation", async () => {
+    const savesBefore = getAttemptCount("Saving the cache");
+    const listingsBefore = getAttemptCount("Listing cache entries");
+
+    await withRetries("Listing cache entries", async () => []);
+
+    expect(getAttemptCount("Saving the cache")).toBe(savesBefore);
+    expect(getAttemptCount("Listing cache entries")).toBe(listingsBefore + 1);
+});
+
+test("withRetries throws the last error once every attempt failed", async () => {
+    testUtils.setInput(Inputs.Retries, "1");
+    testUtils.setInput(Inputs.RetryBackoff, "0");
+    const operation = jest
+        .fn()
+        .mockRejectedValue(createError({ code: "ETIMEDOUT" }));
+
+    await expect(withRetries("Saving the cache", operation)).rejects.toThrow(
+        "Request failed"
+    );
+
+    expect(operation).toHaveBeenCalledTimes(2);
+});
+
+test("withRetries does not retry permanent errors", async () => {
+    testUtils.setInput(Inputs.Retries, "3");
+    testUtils.setInput(Inputs.RetryBackoff, "0");
+    const operation = jest.fn().mockRejectedValue(createError({ status: 422 }));
+
+    await expect(withRetries("Saving the cache", operation)).rejects.toThrow(
+        "Request failed"
+    );
+
+    expect(operation).toHaveBeenCalledTimes(1);
+});
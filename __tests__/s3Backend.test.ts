@@ -0,0 +1,225 @@
+import * as fs from "fs";
+import { rest } from "msw";
+import { setupServer } from "msw/node";
+import * as os from "os";
+import * as path from "path";
+
+import { getPartSize, S3CacheBackend } from "../src/backends/s3Backend";
+import { createS3Handlers, MockS3Object } from "../src/utils/testUtils";
+import { startTimeout } from "../src/utils/timeout";
+
+const endpoint = "http://localhost:9000";
+const bucket = "ci-cache";
+const objects = new Map<string, MockS3Object>();
+const server = setupServer(...createS3Handlers(endpoint, bucket, objects));
+
+let root: string;
+let workspace: string;
+let backend: S3CacheBackend;
+let pristineEnv: NodeJS.ProcessEnv;
+
+function writeFile(name: string, contents: string): void {
+    fs.mkdirSync(path.dirname(path.join(workspace, name)), {
+        recursive: true
+    });
+    fs.writeFileSync(path.join(workspace, name), contents);
+}
+
+function readFile(name: string): string {
+    return fs.readFileSync(path.join(workspace, name), "utf8");
+}
+
+beforeAll(() => {
+    server.listen({ onUnhandledRequest: "error" });
+});
+
+beforeEach(() => {
+    pristineEnv = { ...process.env };
+    objects.clear();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "s3-backend-"));
+    workspace = path.join(root, "workspace");
+    fs.mkdirSync(workspace);
+    process.env["GITHUB_WORKSPACE"] = workspace;
+    process.env["RUNNER_TEMP"] = path.join(root, "temp");
+    backend = new S3CacheBackend({
+        bucket,
+        prefix: "caches/",
+        endpoint,
+        forcePathStyle: true,
+        credentials: { accessKeyId: "minio", secretAccessKey: "minio123" }
+    });
+    jest.spyOn(process, "cwd").mockReturnValue(workspace);
+});
+
+afterEach(() => {
+    server.resetHandlers();
+    jest.restoreAllMocks();
+    process.env = pristineEnv;
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+afterAll(() => {
+    server.close();
+});
+
+test("s3 backend saves and restores an entry by exact key", async () => {
+    writeFile("deps/a.txt", "a");
+
+    expect(await backend.save(["deps"], "deps-linux-1")).toBe(0);
+    expect([...objects.keys()]).toEqual([
+        expect.stringMatching(/^caches\/[0-9a-f]{64}\/deps-linux-1$/)
+    ]);
+
+    fs.rmSync(path.join(workspace, "deps"), { recursive: true });
+    expect(await backend.restore(["deps"], "deps-linux-1")).toBe(
+        "deps-linux-1"
+    );
+    expect(readFile("deps/a.txt")).toBe("a");
+});
+
+test("s3 backend matches restore keys by prefix, newest entry first", async () => {
+    writeFile("deps/a.txt", "old");
+    await backend.save(["deps"], "deps-linux-1");
+    writeFile("deps/a.txt", "new");
+    await backend.save(["deps"], "deps-linux-2");
+    // Listings are paginated, so entries are spread over several pages
+    await backend.save(["deps"], "deps-linux-0");
+    for (const [key, object] of objects) {
+        object.lastModified = new Date(
+            key.endsWith("deps-linux-2") ? "2024-02-01" : "2024-01-01"
+        );
+    }
+    fs.rmSync(path.join(workspace, "deps"), { recursive: true });
+
+    expect(
+        await backend.restore(["deps"], "deps-linux-3", [
+            "deps-windows-",
+            "deps-"
+        ])
+    ).toBe("deps-linux-2");
+    expect(readFile("deps/a.txt")).toBe("new");
+});
+
+test("s3 backend does not match entries saved with different paths", async () => {
+    writeFile("deps/a.txt", "a");
+    writeFile("other/b.txt", "b");
+    await backend.save(["deps"], "deps-linux-1");
+
+    expect(await backend.restore(["other"], "deps-linux-1")).toBeUndefined();
+});
+
+test("s3 backend lookup does not download the archive", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+    fs.rmSync(path.join(workspace, "deps"), { recursive: true });
+
+    expect(await backend.lookup(["deps"], "deps-linux-1")).toBe("deps-linux-1");
+    expect(fs.existsSync(path.join(workspace, "deps"))).toBe(false);
+});
+
+test("s3 backend refuses to overwrite an existing entry", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+
+    await expect(backend.save(["deps"], "deps-linux-1")).rejects.toThrow(
+        /^Unable to reserve cache with key deps-linux-1/
+    );
+});
+
+test("s3 backend deletes and lists entries", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+    await backend.save(["deps"], "deps-linux-2");
+    await backend.save(["deps"], "other-linux-1");
+
+    expect(
+        (await backend.list("deps-")).map(entry => entry.key).sort()
+    ).toEqual(["deps-linux-1", "deps-linux-2"]);
+    expect(await backend.delete("deps-linux-1")).toBe(true);
+    expect(await backend.delete("deps-linux-1")).toBe(false);
+    expect((await backend.list()).map(entry => entry.key).sort()).toEqual([
+        "deps-linux-2",
+        "other-linux-1"
+    ]);
+});
+
+test("s3 backend describes an entry without listing the bucket", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+    const [object] = objects.values();
+    object.lastModified = new Date("2024-01-01T00:00:00Z");
+    const methods: string[] = [];
+    server.events.on("request:start", req => methods.push(req.method));
+
+    expect(await backend.describe(["deps"], "deps-linux-1")).toEqual({
+        key: "deps-linux-1",
+        sizeInBytes: object.body.length,
+        createdAt: new Date("2024-01-01T00:00:00Z")
+    });
+    expect(await backend.describe(["deps"], "deps-linux-2")).toBeUndefined();
+    expect(await backend.describe(["other"], "deps-linux-1")).toBeUndefined();
+    expect(methods).toEqual(["HEAD", "HEAD", "HEAD"]);
+    server.events.removeAllListeners();
+});
+
+test("s3 backend finds the entries of a version with the ref they were saved on", async () => {
+    writeFile("deps/a.txt", "a");
+    writeFile("other/b.txt", "b");
+    process.env["GITHUB_REF"] = "refs/heads/main";
+    await backend.save(["deps"], "deps-linux-1");
+    process.env["GITHUB_REF"] = "refs/heads/feature";
+    await backend.save(["deps"], "deps-linux-2");
+    await backend.save(["deps"], "other-linux-1");
+    await backend.save(["other"], "deps-linux-3");
+
+    const entries = await backend.findEntries(["deps"], ["deps-", "none-"]);
+    expect(entries.map(entry => [entry.key, entry.ref]).sort()).toEqual([
+        ["deps-linux-1", "refs/heads/main"],
+        ["deps-linux-2", "refs/heads/feature"]
+    ]);
+});
+
+test("s3 backend cancels its requests once the step times out", async () => {
+    writeFile("deps/a.txt", "a");
+    await backend.save(["deps"], "deps-linux-1");
+    server.use(
+        rest.get(`${endpoint}/*`, (req, res, ctx) =>
+            res(ctx.delay("infinite"))
+        ),
+        rest.put(`${endpoint}/*`, (req, res, ctx) => res(ctx.delay("infinite")))
+    );
+
+    const stopTimeout = startTimeout(10);
+    try {
+        await expect(
+            backend.downloadArchive(["deps"], "deps-linux-1")
+        ).rejects.toMatchObject({ name: "AbortError" });
+        await expect(backend.save(["deps"], "deps-linux-2")).rejects.toThrow();
+    } finally {
+        stopTimeout();
+    }
+    expect(objects.size).toBe(1);
+});
+
+test("s3 backend treats storage errors as a cache miss when restoring", async () => {
+    server.use(
+        rest.all(`${endpoint}/*`, (req, res, ctx) => res(ctx.status(403)))
+    );
+
+    expect(await backend.restore(["deps"], "deps-linux-1")).toBeUndefined();
+});
+
+test("s3 backend raises the part size of archives that would need more than 10,000 parts", () => {
+    const mib = 1024 * 1024;
+
+    expect(getPartSize(100 * mib)).toBe(32 * mib);
+    expect(getPartSize(100 * mib, mib)).toBe(5 * mib);
+    expect(getPartSize(100 * mib, 64 * mib)).toBe(64 * mib);
+    // 500 GiB in 32 MiB parts would be 16,000 parts
+    expect(getPartSize(500 * 1024 * mib)).toBe(
+        Math.ceil((500 * 1024 * mib) / 10000)
+    );
+    expect(getPartSize(500 * 1024 * mib) * 10000).toBeGreaterThanOrEqual(
+        500 * 1024 * mib
+    );
+});
@@ -151,7 +151,7 @@ test("Granular save with refreshCache is able to save cache", async () => {
 });
 
 test("save failing logs the warning message", async () => {
-    const warningMock = jest.spyOn(core, "warning");
+    const logWarningMock = jest.spyOn(actionUtils, "logWarning");
 
     const primaryKey = "Linux-node-bb828da54c148048dd17899ba9fda624811cfb43";
 
@@ -179,6 +179,6 @@ test("save failing logs the warning message", async () => {
         false
     );
 
-    expect(warningMock).toHaveBeenCalledTimes(1);
-    expect(warningMock).toHaveBeenCalledWith("Cache save failed.");
+    expect(logWarningMock).toHaveBeenCalledTimes(1);
+    expect(logWarningMock).toHaveBeenCalledWith("Cache save failed.");
 });
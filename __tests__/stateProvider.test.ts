@@ -87,3 +87,25 @@ test("NullStateProvider saves outputs", async () => {
     expect(setOutputMock).toHaveBeenCalledTimes(2);
     expect(saveStateMock).toHaveBeenCalledTimes(0);
 });
+
+test("Group providers keep their state and outputs apart", async () => {
+    const saveStateMock = jest
+        .spyOn(core, "saveState")
+        .mockImplementation(() => undefined);
+    const setOutputMock = jest
+        .spyOn(core, "setOutput")
+        .mockImplementation(() => undefined);
+
+    new StateProvider()
+        .forGroup("npm")
+        .setState(State.CachePrimaryKey, "npm-key");
+    new NullStateProvider()
+        .forGroup("npm")
+        .setState(State.CachePrimaryKey, "npm-key");
+
+    expect(saveStateMock).toHaveBeenCalledWith("CACHE_KEY_npm", "npm-key");
+    expect(setOutputMock).toHaveBeenCalledWith(
+        "cache-primary-key-npm",
+        "npm-key"
+    );
+});
@@ -0,0 +1,76 @@
+import { Inputs } from "../src/constants";
+import * as testUtils from "../src/utils/testUtils";
+import {
+    getAbortSignal,
+    getTimeout,
+    sleep,
+    startTimeout,
+    untilTimeout
+} from "../src/utils/timeout";
+
+afterEach(() => {
+    testUtils.clearInputs();
+});
+
+test("getTimeout is not set by default", () => {
+    expect(getTimeout()).toBeUndefined();
+});
+
+test("getTimeout reads a plain number as minutes", () => {
+    testUtils.setInput(Inputs.Timeout, "10");
+
+    expect(getTimeout()).toBe(10 * 60 * 1000);
+});
+
+test("getTimeout reads durations with a unit", () => {
+    testUtils.setInput(Inputs.Timeout, "90s");
+
+    expect(getTimeout()).toBe(90 * 1000);
+});
+
+test("untilTimeout returns the result of an operation that finishes in time", async () => {
+    const stopTimeout = startTimeout(1000);
+    try {
+        expect(
+            await untilTimeout(
+                () => Promise.resolve("Linux-node-abc"),
+                () => undefined
+            )
+        ).toBe("Linux-node-abc");
+    } finally {
+        stopTimeout();
+    }
+});
+
+test("untilTimeout abandons a hung operation and starts no further ones", async () => {
+    const onTimeout = jest.fn().mockReturnValue("timed out");
+    const operation = jest.fn().mockResolvedValue("Linux-node-abc");
+    const stopTimeout = startTimeout(10);
+    try {
+        expect(
+            await untilTimeout(
+                () => new Promise<string>(() => undefined),
+                onTimeout
+            )
+        ).toBe("timed out");
+        expect(getAbortSignal().aborted).toBe(true);
+        expect(onTimeout).toHaveBeenCalledWith(10);
+
+        expect(await untilTimeout(operation, onTimeout)).toBe("timed out");
+        expect(operation).not.toHaveBeenCalled();
+    } finally {
+        stopTimeout();
+    }
+    expect(getAbortSignal().aborted).toBe(false);
+});
+
+test("sleep resolves as soon as the step times out", async () => {
+    const stopTimeout = startTimeout(10);
+    const startTime = Date.now();
+    try {
+        await sleep(60 * 1000);
+    } finally {
+        stopTimeout();
+    }
+    expect(Date.now() - startTime).toBeLessThan(10 * 1000);
+});
@@ -0,0 +1,39 @@
+import { formatSize, parseDuration, parseSize } from "../src/utils/units";
+
+test("parseDuration parses durations with units", () => {
+    expect(parseDuration("max-age", "90s")).toBe(90 * 1000);
+    expect(parseDuration("max-age", "30m")).toBe(30 * 60 * 1000);
+    expect(parseDuration("max-age", "1.5h")).toBe(90 * 60 * 1000);
+    expect(parseDuration("max-age", "7d")).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseDuration("max-age", "2W")).toBe(14 * 24 * 60 * 60 * 1000);
+});
+
+test("parseDuration uses the default unit for plain numbers", () => {
+    expect(parseDuration("timeout", "10")).toBe(10 * 1000);
+    expect(parseDuration("max-age", "3", "d")).toBe(3 * 24 * 60 * 60 * 1000);
+});
+
+test("parseDuration rejects invalid durations", () => {
+    expect(() => parseDuration("max-age", "a week")).toThrow(
+        "Input Validation Error: max-age must be a duration like 30m, 12h or 7d, got a week."
+    );
+    expect(() => parseDuration("max-age", "-1d")).toThrow();
+});
+
+test("parseSize parses sizes with binary units", () => {
+    expect(parseSize("max-size", "100")).toBe(100);
+    expect(parseSize("max-size", "1KB")).toBe(1024);
+    expect(parseSize("max-size", "500 MB")).toBe(500 * 1024 * 1024);
+    expect(parseSize("max-size", "1.5gb")).toBe(1.5 * 1024 * 1024 * 1024);
+    expect(parseSize("max-size", "2TB")).toBe(2 * 1024 ** 4);
+});
+
+test("parseSize rejects invalid sizes", () => {
+    expect(() => parseSize("max-size", "10 GiB")).toThrow(
+        "Input Validation Error: max-size must be a size like 500MB or 10GB, got 10 GiB."
+    );
+});
+
+test("formatSize formats sizes like the cache logs", () => {
+    expect(formatSize(3 * 1024 * 1024)).toBe("~3 MB (3145728 B)");
+});
@@ -0,0 +1,162 @@
+import { ValidationError } from "@actions/cache";
+import * as utils from "@actions/cache/lib/internal/cacheUtils";
+import { CompressionMethod } from "@actions/cache/lib/internal/constants";
+import { createTar, extractTar } from "@actions/cache/lib/internal/tar";
+import * as fs from "fs";
+import * as path from "path";
+
+// Archives are created with the same tar helpers and versioning as @actions/cache, so the
+// backends behave exactly like the Actions cache service with regard to paths and compression.
+
+export interface Archive {
+    archivePath: string;
+    compressionMethod: CompressionMethod;
+    version: string;
+    sizeInBytes: number;
+}
+
+export interface ArchiveVersion {
+    compressionMethod: CompressionMethod;
+    version: string;
+}
+
+export function checkKeys(
+    primaryKey: string,
+    restoreKeys: string[] = []
+): void {
+    const keys = [primaryKey, ...restoreKeys];
+    if (keys.length > 10) {
+        throw new ValidationError(
+            `Key Validation Error: Keys are limited to a maximum of 10.`
+        );
+    }
+    for (const key of keys) {
+        if (key.length > 512) {
+            throw new ValidationError(
+                `Key Validation Error: ${key} cannot be larger than 512 characters.`
+            );
+        }
+        if (key.includes(",")) {
+            throw new ValidationError(
+                `Key Validation Error: ${key} cannot contain commas.`
+            );
+        }
+    }
+}
+
+export async function getArchiveVersion(
+    paths: string[],
+    enableCrossOsArchive = false
+): Promise<ArchiveVersion> {
+    const compressionMethod = await utils.getCompressionMethod();
+    return {
+        compressionMethod,
+        version: utils.getCacheVersion(
+            paths,
+            compressionMethod,
+            enableCrossOsArchive
+        )
+    };
+}
+
+export function getArchiveFileName(
+    compressionMethod: CompressionMethod
+): string {
+    return utils.getCacheFileName(compressionMethod);
+}
+
+// Returns a path in a new temporary folder to download an archive to, removed with `removeArchive`
+export async function getDownloadPath(
+    compressionMethod: CompressionMethod
+): Promise<string> {
+    return path.join(
+        await utils.createTempDirectory(),
+        utils.getCacheFileName(compressionMethod)
+    );
+}
+
+// @actions/cache resolves the paths without descending into directories, so the `!` patterns only
+// leave out the paths they match at the top level, and tar would archive the files they match
+// within the directories. tar is therefore given them as `--exclude` patterns as well, through
+// TAR_OPTIONS, which GNU tar reads, since @actions/cache takes no options for tar.
+export async function withTarExclusions<T>(
+    paths: string[],
+    operation: () => Promise<T>
+): Promise<T> {
+    const exclusions = paths
+        .filter(pattern => pattern.startsWith("!"))
+        .map(
+            pattern =>
+                `--exclude=${pattern.slice(1).replace(/[\s'"\\]/g, "\\$&")}`
+        );
+    if (exclusions.length === 0) {
+        return operation();
+    }
+    const tarOptions = process.env["TAR_OPTIONS"];
+    process.env["TAR_OPTIONS"] = [tarOptions, ...exclusions]
+        .filter(option => option)
+        .join(" ");
+    try {
+        return await operation();
+    } finally {
+        if (tarOptions === undefined) {
+            delete process.env["TAR_OPTIONS"];
+        } else {
+            process.env["TAR_OPTIONS"] = tarOptions;
+        }
+    }
+}
+
+// The caller is responsible for removing the archive once it is stored.
+export async function createArchive(
+    paths: string[],
+    enableCrossOsArchive = false
+): Promise<Archive> {
+    if (paths.length === 0) {
+        throw new ValidationError(
+            `Path Validation Error: At least one directory or file path is required`
+        );
+    }
+
+    const { compressionMethod, version } = await getArchiveVersion(
+        paths,
+        enableCrossOsArchive
+    );
+    const cachePaths = await utils.resolvePaths(paths);
+    if (cachePaths.length === 0) {
+        throw new Error(
+            `Path Validation Error: Path(s) specified in the action for caching do(es) not exist, hence no cache is being saved.`
+        );
+    }
+
+    const archiveFolder = await utils.createTempDirectory();
+    const archivePath = path.join(
+        archiveFolder,
+        utils.getCacheFileName(compressionMethod)
+    );
+    await withTarExclusions(paths, () =>
+        createTar(archiveFolder, cachePaths, compressionMethod)
+    );
+
+    return {
+        archivePath,
+        compressionMethod,
+        version,
+        sizeInBytes: utils.getArchiveFileSizeInBytes(archivePath)
+    };
+}
+
+export async function extractArchive(
+    archivePath: string,
+    compressionMethod: CompressionMethod
+): Promise<void> {
+    await extractTar(archivePath, compressionMethod);
+}
+
+// Removes the archive along with the temporary folder it was created in
+export async function removeArchive(archivePath: string): Promise<void> {
+    await fs.promises.rm(path.dirname(archivePath), {
+        recursive: true,
+        force: true
+    });
+}
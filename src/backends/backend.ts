@@ -0,0 +1,125 @@
+import { DownloadOptions, UploadOptions } from "@actions/cache/lib/options";
+
+import { Archive } from "./archive";
+
+export enum BackendType {
+    GitHub = "github",
+    Local = "local",
+    S3 = "s3"
+}
+
+export interface CacheEntry {
+    key: string;
+    id?: number;
+    ref?: string;
+    sizeInBytes?: number;
+    createdAt?: Date;
+    lastAccessedAt?: Date;
+}
+
+// Storage for cache archives. The signatures of `restore` and `save` follow
+// `restoreCache` and `saveCache` from @actions/cache, so every backend can be
+// used in their place with the same key matching and versioning semantics.
+export interface ICacheBackend {
+    readonly type: BackendType;
+
+    isAvailable(): boolean;
+
+    restore(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        options?: DownloadOptions,
+        enableCrossOsArchive?: boolean
+    ): Promise<string | undefined>;
+
+    save(
+        paths: string[],
+        key: string,
+        options?: UploadOptions,
+        enableCrossOsArchive?: boolean
+    ): Promise<number>;
+
+    lookup(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        enableCrossOsArchive?: boolean
+    ): Promise<string | undefined>;
+
+    canDelete(): boolean;
+
+    delete(key: string): Promise<boolean>;
+
+    list(prefix?: string): Promise<CacheEntry[]>;
+
+    // Looks up the entry with exactly this key, saved with the version of `paths`
+    describe(
+        paths: string[],
+        key: string,
+        enableCrossOsArchive?: boolean
+    ): Promise<CacheEntry | undefined>;
+
+    // Looks up the entries saved with the version of `paths` whose keys start with one of `keys`,
+    // along with the ref they were saved on. Undefined when the backend restores entries of some
+    // refs only, which is decided by the backend itself.
+    findEntries(
+        paths: string[],
+        keys: string[],
+        enableCrossOsArchive?: boolean
+    ): Promise<CacheEntry[] | undefined>;
+}
+
+// An archive downloaded for the entry matched by `key`, which the caller removes
+export interface DownloadedArchive {
+    key: string;
+    archive: Archive;
+}
+
+// Backends that store archives of ./archive as they are, so the disk cache copies an archive
+// between backends without archiving the files again. Unlike `restore` and `save`, these throw
+// every error, and `uploadArchive` leaves removing the archive to the caller.
+export interface IArchiveBackend extends ICacheBackend {
+    downloadArchive(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        options?: DownloadOptions,
+        enableCrossOsArchive?: boolean
+    ): Promise<DownloadedArchive | undefined>;
+
+    uploadArchive(
+        paths: string[],
+        key: string,
+        archive: Archive,
+        options?: UploadOptions,
+        enableCrossOsArchive?: boolean
+    ): Promise<number>;
+}
+
+// Same precedence as the Actions cache service: an exact match of a key wins, then the most
+// recently created entry prefixed by it, for the primary key first and then each restore key.
+export function findCacheEntry(
+    entries: CacheEntry[],
+    primaryKey: string,
+    restoreKeys: string[] = []
+): CacheEntry | undefined {
+    for (const key of [primaryKey, ...restoreKeys]) {
+        const exactMatch = entries.find(entry => entry.key === key);
+        if (exactMatch) {
+            return exactMatch;
+        }
+
+        const prefixMatch = entries
+            .filter(entry => entry.key.startsWith(key))
+            .sort(
+                (a, b) =>
+                    (b.createdAt?.getTime() ?? 0) -
+                    (a.createdAt?.getTime() ?? 0)
+            )[0];
+        if (prefixMatch) {
+            return prefixMatch;
+        }
+    }
+    return undefined;
+}
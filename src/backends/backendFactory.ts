@@ -0,0 +1,72 @@
+import * as core from "@actions/core";
+
+import { Inputs } from "../constants";
+import * as utils from "../utils/actionUtils";
+import { parseSize } from "../utils/units";
+import { BackendType, IArchiveBackend, ICacheBackend } from "./backend";
+import { DiskCacheBackend } from "./diskCacheBackend";
+import { GitHubCacheBackend } from "./githubBackend";
+import { LocalCacheBackend } from "./localBackend";
+import { S3BackendOptions, S3CacheBackend } from "./s3Backend";
+
+// Without credential inputs, the AWS SDK looks them up itself, e.g. from AWS_ACCESS_KEY_ID
+function getS3Credentials(): S3BackendOptions["credentials"] {
+    const accessKeyId = core.getInput(Inputs.S3AccessKeyId);
+    if (!accessKeyId) {
+        return undefined;
+    }
+    const secretAccessKey = core.getInput(Inputs.S3SecretAccessKey, {
+        required: true
+    });
+    const sessionToken = core.getInput(Inputs.S3SessionToken) || undefined;
+    core.setSecret(secretAccessKey);
+    sessionToken && core.setSecret(sessionToken);
+    return { accessKeyId, secretAccessKey, sessionToken };
+}
+
+// Entries are kept on the runner too when `disk-cache-path` is set
+export function getCacheBackend(): ICacheBackend {
+    const backend = getStorageBackend();
+    const diskCachePath = core.getInput(Inputs.DiskCachePath);
+    if (!diskCachePath) {
+        return backend;
+    }
+    const maxSize = core.getInput(Inputs.DiskCacheMaxSize);
+    return new DiskCacheBackend(
+        backend,
+        new LocalCacheBackend(diskCachePath),
+        maxSize ? parseSize(Inputs.DiskCacheMaxSize, maxSize) : undefined
+    );
+}
+
+function getStorageBackend(): IArchiveBackend {
+    const type = core.getInput(Inputs.Backend) || BackendType.GitHub;
+    switch (type) {
+        case BackendType.GitHub:
+            return new GitHubCacheBackend(
+                core.getInput(Inputs.Token) || process.env["GITHUB_TOKEN"]
+            );
+        case BackendType.Local:
+            return new LocalCacheBackend(
+                core.getInput(Inputs.LocalPath, { required: true })
+            );
+        case BackendType.S3:
+            return new S3CacheBackend({
+                bucket: core.getInput(Inputs.S3Bucket, { required: true }),
+                prefix: core.getInput(Inputs.S3Prefix),
+                endpoint: core.getInput(Inputs.S3Endpoint),
+                region:
+                    core.getInput(Inputs.S3Region) ||
+                    process.env["AWS_REGION"] ||
+                    process.env["AWS_DEFAULT_REGION"],
+                forcePathStyle: utils.getInputAsBool(Inputs.S3ForcePathStyle),
+                credentials: getS3Credentials()
+            });
+        default:
+            throw new Error(
+                `Input Validation Error: ${
+                    Inputs.Backend
+                } must be one of ${Object.values(BackendType).join(", ")}.`
+            );
+    }
+}
@@ -0,0 +1,262 @@
+import { ValidationError } from "@actions/cache";
+import { DownloadOptions, UploadOptions } from "@actions/cache/lib/options";
+import * as core from "@actions/core";
+
+import * as utils from "../utils/actionUtils";
+import { formatSize } from "../utils/units";
+import {
+    Archive,
+    createArchive,
+    extractArchive,
+    removeArchive
+} from "./archive";
+import {
+    BackendType,
+    CacheEntry,
+    DownloadedArchive,
+    IArchiveBackend,
+    ICacheBackend
+} from "./backend";
+
+// Keeps copies of the entries of another backend on the runner, e.g. on persistent self-hosted
+// runners, so repeat jobs on the same machine do not download them again. Entries are restored
+// from the disk first, and copied to it when restored from or saved to the other backend, by
+// copying the archive downloaded or uploaded. The least recently used entries are removed from
+// the disk when it holds more than `maxSize` bytes.
+export class DiskCacheBackend implements ICacheBackend {
+    readonly type: BackendType;
+
+    // Whether the last restored entry came from the disk
+    diskCacheHit = false;
+
+    constructor(
+        private readonly remote: IArchiveBackend,
+        private readonly disk: IArchiveBackend,
+        private readonly maxSize?: number
+    ) {
+        this.type = remote.type;
+    }
+
+    isAvailable(): boolean {
+        return this.remote.isAvailable();
+    }
+
+    async restore(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        options?: DownloadOptions,
+        enableCrossOsArchive?: boolean
+    ): Promise<string | undefined> {
+        this.diskCacheHit = false;
+        const diskKey = await this.disk.lookup(
+            paths,
+            primaryKey,
+            restoreKeys,
+            enableCrossOsArchive
+        );
+
+        // An entry matched by prefix on the disk is only used when the other backend has no
+        // exact match, which would be more recent
+        if (
+            diskKey &&
+            (utils.isExactKeyMatch(primaryKey, diskKey) ||
+                !(await this.remote.lookup(
+                    paths,
+                    primaryKey,
+                    [],
+                    enableCrossOsArchive
+                )))
+        ) {
+            const cacheKey = await this.disk.restore(
+                paths,
+                diskKey,
+                [],
+                options,
+                enableCrossOsArchive
+            );
+            if (cacheKey) {
+                core.info(`Disk cache hit for key: ${cacheKey}`);
+                this.diskCacheHit = true;
+                return cacheKey;
+            }
+        }
+
+        core.info(
+            `Disk cache miss, restoring from the ${this.remote.type} backend.`
+        );
+        if (options?.lookupOnly) {
+            return this.remote.restore(
+                paths,
+                primaryKey,
+                restoreKeys,
+                options,
+                enableCrossOsArchive
+            );
+        }
+
+        // Like `restore` of the backends, only validation errors fail a restore
+        let downloaded: DownloadedArchive | undefined;
+        try {
+            downloaded = await this.remote.downloadArchive(
+                paths,
+                primaryKey,
+                restoreKeys,
+                options,
+                enableCrossOsArchive
+            );
+            if (!downloaded) {
+                return undefined;
+            }
+            const { archive } = downloaded;
+            core.info(
+                `Cache Size: ~${Math.round(
+                    archive.sizeInBytes / (1024 * 1024)
+                )} MB (${archive.sizeInBytes} B)`
+            );
+            await extractArchive(
+                archive.archivePath,
+                archive.compressionMethod
+            );
+            core.info("Cache restored successfully");
+            await this.copyToDisk(
+                paths,
+                downloaded.key,
+                archive,
+                enableCrossOsArchive
+            );
+            return downloaded.key;
+        } catch (error: unknown) {
+            if ((error as Error).name === ValidationError.name) {
+                throw error;
+            }
+            utils.logWarning(`Failed to restore: ${(error as Error).message}`);
+            return undefined;
+        } finally {
+            if (downloaded) {
+                await removeArchive(downloaded.archive.archivePath);
+            }
+        }
+    }
+
+    async save(
+        paths: string[],
+        key: string,
+        options?: UploadOptions,
+        enableCrossOsArchive?: boolean
+    ): Promise<number> {
+        // The files are archived once, for both backends
+        const archive = await createArchive(paths, enableCrossOsArchive);
+        try {
+            const cacheId = await this.remote.uploadArchive(
+                paths,
+                key,
+                archive,
+                options,
+                enableCrossOsArchive
+            );
+            await this.copyToDisk(paths, key, archive, enableCrossOsArchive);
+            return cacheId;
+        } finally {
+            await removeArchive(archive.archivePath);
+        }
+    }
+
+    // Refreshing and the save step look up what the other backend holds
+    lookup(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        enableCrossOsArchive?: boolean
+    ): Promise<string | undefined> {
+        return this.remote.lookup(
+            paths,
+            primaryKey,
+            restoreKeys,
+            enableCrossOsArchive
+        );
+    }
+
+    canDelete(): boolean {
+        return this.remote.canDelete();
+    }
+
+    async delete(key: string): Promise<boolean> {
+        // The copy is removed too, so a refreshed entry is not shadowed by its old contents
+        await this.disk.delete(key);
+        return this.remote.delete(key);
+    }
+
+    list(prefix?: string): Promise<CacheEntry[]> {
+        return this.remote.list(prefix);
+    }
+
+    describe(
+        paths: string[],
+        key: string,
+        enableCrossOsArchive?: boolean
+    ): Promise<CacheEntry | undefined> {
+        return this.remote.describe(paths, key, enableCrossOsArchive);
+    }
+
+    findEntries(
+        paths: string[],
+        keys: string[],
+        enableCrossOsArchive?: boolean
+    ): Promise<CacheEntry[] | undefined> {
+        return this.remote.findEntries(paths, keys, enableCrossOsArchive);
+    }
+
+    // Copying is best effort, the entry is already stored by the other backend
+    private async copyToDisk(
+        paths: string[],
+        key: string,
+        archive: Archive,
+        enableCrossOsArchive?: boolean
+    ): Promise<void> {
+        try {
+            await this.disk.delete(key);
+            await this.disk.uploadArchive(
+                paths,
+                key,
+                archive,
+                undefined,
+                enableCrossOsArchive
+            );
+            core.info(`Cache copied to the disk cache with key: ${key}`);
+            await this.evict();
+        } catch (error: unknown) {
+            utils.logWarning(
+                `Failed to copy cache to the disk cache: ${
+                    (error as Error).message
+                }`
+            );
+        }
+    }
+
+    // Removes the least recently used entries until the disk cache fits `maxSize`
+    private async evict(): Promise<void> {
+        if (this.maxSize === undefined) {
+            return;
+        }
+        const entries = (await this.disk.list()).sort(
+            (a, b) =>
+                (b.lastAccessedAt?.getTime() ?? 0) -
+                (a.lastAccessedAt?.getTime() ?? 0)
+        );
+        let totalSize = 0;
+        for (const entry of entries) {
+            totalSize += entry.sizeInBytes ?? 0;
+            if (totalSize > this.maxSize) {
+                core.info(
+                    `Removing ${entry.key} (${formatSize(
+                        entry.sizeInBytes ?? 0
+                    )}) from the disk cache, which is limited to ${formatSize(
+                        this.maxSize
+                    )}.`
+                );
+                await this.disk.delete(entry.key);
+            }
+        }
+    }
+}
@@ -0,0 +1,421 @@
+import * as cache from "@actions/cache";
+import * as cacheHttpClient from "@actions/cache/lib/internal/cacheHttpClient";
+import {
+    getCacheServiceVersion,
+    isGhes
+} from "@actions/cache/lib/internal/config";
+import { CacheFileSizeLimit } from "@actions/cache/lib/internal/constants";
+import { internalCacheTwirpClient } from "@actions/cache/lib/internal/shared/cacheTwirpClient";
+import { DownloadOptions, UploadOptions } from "@actions/cache/lib/options";
+import * as core from "@actions/core";
+import * as fs from "fs";
+
+import * as utils from "../utils/actionUtils";
+import {
+    getRetryPolicy,
+    RestoreOperation,
+    SaveOperation,
+    withRetries
+} from "../utils/retry";
+import {
+    Archive,
+    checkKeys,
+    createArchive,
+    extractArchive,
+    getArchiveVersion,
+    getDownloadPath,
+    removeArchive,
+    withTarExclusions
+} from "./archive";
+import {
+    BackendType,
+    CacheEntry,
+    DownloadedArchive,
+    findCacheEntry,
+    IArchiveBackend
+} from "./backend";
+
+function getRepository(): [string, string] | undefined {
+    const [owner, repo] = (process.env["GITHUB_REPOSITORY"] || "").split("/");
+    return owner && repo ? [owner, repo] : undefined;
+}
+
+// The Actions cache service, the default backend.
+export class GitHubCacheBackend implements IArchiveBackend {
+    readonly type = BackendType.GitHub;
+
+    // The token is only needed to delete and list entries
+    constructor(private readonly token?: string) {}
+
+    isAvailable(): boolean {
+        return utils.isCacheFeatureAvailable();
+    }
+
+    // @actions/cache logs why a restore or save failed instead of throwing, so with the `retries`
+    // input the archive is downloaded or uploaded here instead, where only transient errors are
+    // retried. The files are archived once for every attempt of a save.
+    async restore(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        options?: DownloadOptions,
+        enableCrossOsArchive?: boolean
+    ): Promise<string | undefined> {
+        if (getRetryPolicy().retries === 0 || options?.lookupOnly) {
+            return cache.restoreCache(
+                paths,
+                primaryKey,
+                restoreKeys,
+                options,
+                enableCrossOsArchive
+            );
+        }
+
+        // Like `restoreCache`, only validation errors fail a restore
+        let downloaded: DownloadedArchive | undefined;
+        try {
+            downloaded = await this.downloadArchive(
+                paths,
+                primaryKey,
+                restoreKeys,
+                options,
+                enableCrossOsArchive
+            );
+            if (!downloaded) {
+                return undefined;
+            }
+            const { archive } = downloaded;
+            core.info(
+                `Cache Size: ~${Math.round(
+                    archive.sizeInBytes / (1024 * 1024)
+                )} MB (${archive.sizeInBytes} B)`
+            );
+            await extractArchive(
+                archive.archivePath,
+                archive.compressionMethod
+            );
+            core.info("Cache restored successfully");
+            return downloaded.key;
+        } catch (error: unknown) {
+            if ((error as Error).name === cache.ValidationError.name) {
+                throw error;
+            }
+            utils.logWarning(`Failed to restore: ${(error as Error).message}`);
+            return undefined;
+        } finally {
+            if (downloaded) {
+                await removeArchive(downloaded.archive.archivePath);
+            }
+        }
+    }
+
+    async save(
+        paths: string[],
+        key: string,
+        options?: UploadOptions,
+        enableCrossOsArchive = false
+    ): Promise<number> {
+        if (getRetryPolicy().retries === 0) {
+            return withTarExclusions(paths, () =>
+                cache.saveCache(paths, key, options, enableCrossOsArchive)
+            );
+        }
+
+        // Like `saveCache`, only validation errors fail a save
+        const archive = await createArchive(paths, enableCrossOsArchive);
+        try {
+            return await this.uploadArchive(
+                paths,
+                key,
+                archive,
+                options,
+                enableCrossOsArchive
+            );
+        } catch (error: unknown) {
+            const { name, message } = error as Error;
+            if (name === cache.ValidationError.name) {
+                throw error;
+            }
+            if (name === cache.ReserveCacheError.name) {
+                core.info(`Failed to save: ${message}`);
+            } else {
+                utils.logWarning(`Failed to save: ${message}`);
+            }
+            return -1;
+        } finally {
+            await removeArchive(archive.archivePath);
+        }
+    }
+
+    // Not retried, since a failed lookup cannot be told apart from a miss
+    lookup(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        enableCrossOsArchive?: boolean
+    ): Promise<string | undefined> {
+        return cache.restoreCache(
+            paths,
+            primaryKey,
+            restoreKeys,
+            { lookupOnly: true },
+            enableCrossOsArchive
+        );
+    }
+
+    // Like `restoreCache` of @actions/cache, without extracting the archive
+    downloadArchive(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys: string[] = [],
+        options?: DownloadOptions,
+        enableCrossOsArchive = false
+    ): Promise<DownloadedArchive | undefined> {
+        checkKeys(primaryKey, restoreKeys);
+        return withRetries(RestoreOperation, async () => {
+            const { compressionMethod, version } = await getArchiveVersion(
+                paths,
+                enableCrossOsArchive
+            );
+            const v2 = getCacheServiceVersion() === "v2";
+            let key: string | undefined;
+            let archiveLocation: string | undefined;
+            if (v2) {
+                const response =
+                    await internalCacheTwirpClient().GetCacheEntryDownloadURL({
+                        key: primaryKey,
+                        restoreKeys,
+                        version
+                    });
+                if (response.ok) {
+                    key = response.matchedKey;
+                    archiveLocation = response.signedDownloadUrl;
+                }
+            } else {
+                const entry = await cacheHttpClient.getCacheEntry(
+                    [primaryKey, ...restoreKeys],
+                    paths,
+                    { compressionMethod, enableCrossOsArchive }
+                );
+                key = entry?.cacheKey;
+                archiveLocation = entry?.archiveLocation;
+            }
+            if (!key || !archiveLocation) {
+                return undefined;
+            }
+            core.info(`Cache hit for: ${key}`);
+
+            const archivePath = await getDownloadPath(compressionMethod);
+            try {
+                await cacheHttpClient.downloadCache(
+                    archiveLocation,
+                    archivePath,
+                    v2 ? { ...options, useAzureSdk: true } : options
+                );
+            } catch (error: unknown) {
+                await removeArchive(archivePath);
+                throw error;
+            }
+            return {
+                key,
+                archive: {
+                    archivePath,
+                    compressionMethod,
+                    version,
+                    sizeInBytes: fs.statSync(archivePath).size
+                }
+            };
+        });
+    }
+
+    // Like `saveCache` of @actions/cache, for an archive that is already created
+    uploadArchive(
+        paths: string[],
+        key: string,
+        archive: Archive,
+        options?: UploadOptions,
+        enableCrossOsArchive = false
+    ): Promise<number> {
+        checkKeys(key);
+        if (archive.sizeInBytes > CacheFileSizeLimit && !isGhes()) {
+            throw new Error(
+                `Cache size of ~${Math.round(
+                    archive.sizeInBytes / (1024 * 1024)
+                )} MB (${
+                    archive.sizeInBytes
+                } B) is over the 10GB limit, not saving cache.`
+            );
+        }
+        return withRetries(SaveOperation, () =>
+            getCacheServiceVersion() === "v2"
+                ? this.uploadArchiveV2(key, archive, options)
+                : this.uploadArchiveV1(
+                      paths,
+                      key,
+                      archive,
+                      options,
+                      enableCrossOsArchive
+                  )
+        );
+    }
+
+    // Deleting and listing go through the REST API, which needs a token and the repository
+    canDelete(): boolean {
+        return !!(this.token && getRepository());
+    }
+
+    async delete(key: string): Promise<boolean> {
+        const repository = getRepository();
+        if (!repository) {
+            return false;
+        }
+        const [owner, repo] = repository;
+        return (
+            (await utils.deleteCacheByKey(key, owner, repo, this.token)) === 204
+        );
+    }
+
+    async list(prefix?: string): Promise<CacheEntry[]> {
+        const repository = getRepository();
+        if (!repository || !this.token) {
+            return [];
+        }
+        const [owner, repo] = repository;
+        const caches = await utils.listCacheEntries(
+            owner,
+            repo,
+            { key: prefix },
+            this.token
+        );
+        return caches.map(entry => ({
+            key: entry.key ?? "",
+            id: entry.id,
+            ref: entry.ref,
+            sizeInBytes: entry.size_in_bytes,
+            createdAt: entry.created_at
+                ? new Date(entry.created_at)
+                : undefined,
+            lastAccessedAt: entry.last_accessed_at
+                ? new Date(entry.last_accessed_at)
+                : undefined
+        }));
+    }
+
+    // The API filters entries by key itself, the version is not part of the listing
+    async describe(
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        paths: string[],
+        key: string
+    ): Promise<CacheEntry | undefined> {
+        const entries = (await this.list(key)).filter(
+            entry => entry.key === key
+        );
+        return findCacheEntry(entries, key);
+    }
+
+    // The service only restores entries of the current ref, the default branch and the base
+    // branch of a pull request, whatever the ref of a listed entry is
+    async findEntries(): Promise<CacheEntry[] | undefined> {
+        return undefined;
+    }
+
+    // The legacy service reserves an id for the entry before the upload
+    private async uploadArchiveV1(
+        paths: string[],
+        key: string,
+        archive: Archive,
+        options: UploadOptions | undefined,
+        enableCrossOsArchive: boolean
+    ): Promise<number> {
+        const response = await cacheHttpClient.reserveCache(key, paths, {
+            compressionMethod: archive.compressionMethod,
+            enableCrossOsArchive,
+            cacheSize: archive.sizeInBytes
+        });
+        const cacheId: number | undefined = response?.result?.cacheId;
+        if (!cacheId) {
+            if (response?.statusCode === 400) {
+                throw new Error(
+                    response.error?.message ??
+                        `Cache size of ~${Math.round(
+                            archive.sizeInBytes / (1024 * 1024)
+                        )} MB (${
+                            archive.sizeInBytes
+                        } B) is over the data cap limit, not saving cache.`
+                );
+            }
+            // Only a conflict means that another job reserved the key, other errors fail the save
+            if (response?.statusCode === 409) {
+                throw new cache.ReserveCacheError(
+                    `Unable to reserve cache with key ${key}, another job may be creating this cache. More details: ${response.error?.message}`
+                );
+            }
+            throw Object.assign(
+                new Error(
+                    `Unable to reserve cache with key ${key}: ${
+                        response?.error?.message ?? "no cache id returned"
+                    }`
+                ),
+                { statusCode: response?.statusCode }
+            );
+        }
+        await cacheHttpClient.saveCache(
+            cacheId,
+            archive.archivePath,
+            "",
+            options
+        );
+        return cacheId;
+    }
+
+    // Cache service v2 uploads to a signed URL, and the entry is only created once finalized
+    private async uploadArchiveV2(
+        key: string,
+        archive: Archive,
+        options: UploadOptions | undefined
+    ): Promise<number> {
+        const client = internalCacheTwirpClient();
+        const request = { key, version: archive.version };
+        // The service refuses a key that already exists with a response that is not ok, or with a
+        // 409 Conflict that the client throws. Other errors, like missing permissions or server
+        // errors the client gave up retrying, fail the save.
+        let ok = false;
+        let signedUploadUrl = "";
+        try {
+            ({ ok, signedUploadUrl } = await client.CreateCacheEntry(request));
+        } catch (error: unknown) {
+            if (!(error as Error).message.includes("(409)")) {
+                throw error;
+            }
+            core.debug(`Failed to reserve cache: ${error}`);
+        }
+        if (!ok) {
+            throw new cache.ReserveCacheError(
+                `Unable to reserve cache with key ${key}, another job may be creating this cache.`
+            );
+        }
+        // The same upload settings as @actions/cache for the v2 service
+        await cacheHttpClient.saveCache(
+            -1,
+            archive.archivePath,
+            signedUploadUrl,
+            {
+                ...options,
+                uploadChunkSize: 64 * 1024 * 1024,
+                uploadConcurrency: 8,
+                useAzureSdk: true,
+                archiveSizeBytes: archive.sizeInBytes
+            }
+        );
+        const response = await client.FinalizeCacheEntryUpload({
+            ...request,
+            sizeBytes: `${archive.sizeInBytes}`
+        });
+        if (!response.ok) {
+            throw new Error(
+                `Unable to finalize cache with key ${key}, another job may be finalizing this cache.`
+            );
+        }
+        return parseInt(response.entryId);
+    }
+}
@@ -0,0 +1,427 @@
+import { ReserveCacheError, ValidationError } from "@actions/cache";
+import { CompressionMethod } from "@actions/cache/lib/internal/constants";
+import { DownloadOptions, UploadOptions } from "@actions/cache/lib/options";
+import * as core from "@actions/core";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { RefKey } from "../constants";
+import * as utils from "../utils/actionUtils";
+import {
+    Archive,
+    checkKeys,
+    createArchive,
+    extractArchive,
+    getArchiveFileName,
+    getArchiveVersion,
+    getDownloadPath,
+    removeArchive
+} from "./archive";
+import {
+    BackendType,
+    CacheEntry,
+    DownloadedArchive,
+    findCacheEntry,
+    IArchiveBackend
+} from "./backend";
+
+interface LocalCacheMetadata {
+    key: string;
+    archive: string;
+    sizeInBytes: number;
+    // The ref of the workflow run that saved the entry, missing for entries saved before it
+    // was recorded
+    ref?: string;
+    createdAt: string;
+    lastAccessedAt: string;
+}
+
+interface LocalCacheEntry {
+    metadata: LocalCacheMetadata;
+    compressionMethod: CompressionMethod;
+    version: string;
+}
+
+const metadataExtension = ".json";
+const accessExtension = ".access";
+
+// Stores archives in a directory, e.g. on a persistent disk or an NFS share mounted on
+// self-hosted runners. Entries are grouped by cache version, like the Actions cache service:
+//   <directory>/<version>/<sha256 of key>.json        metadata, written last
+//   <directory>/<version>/<sha256 of key>-cache.tzst  archive
+//   <directory>/<version>/<sha256 of key>.access      modified when restored, if it was
+export class LocalCacheBackend implements IArchiveBackend {
+    readonly type: BackendType = BackendType.Local;
+    readonly directory: string;
+
+    constructor(directory: string) {
+        this.directory = path.resolve(
+            directory.replace(/^~(?=$|[\\/])/, os.homedir())
+        );
+    }
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    async restore(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys: string[] = [],
+        options?: DownloadOptions,
+        enableCrossOsArchive = false
+    ): Promise<string | undefined> {
+        checkKeys(primaryKey, restoreKeys);
+
+        try {
+            const entry = await this.findEntry(
+                paths,
+                primaryKey,
+                restoreKeys,
+                enableCrossOsArchive
+            );
+            if (!entry) {
+                return undefined;
+            }
+            if (options?.lookupOnly) {
+                core.info("Lookup only - skipping download");
+                return entry.metadata.key;
+            }
+
+            const { sizeInBytes } = entry.metadata;
+            core.info(
+                `Cache Size: ~${Math.round(
+                    sizeInBytes / (1024 * 1024)
+                )} MB (${sizeInBytes} B)`
+            );
+            // Archives are extracted where they are stored, without copying them first
+            await extractArchive(
+                this.getArchivePath(entry.version, entry.metadata),
+                entry.compressionMethod
+            );
+            this.touch(entry.version, entry.metadata);
+            core.info("Cache restored successfully");
+            return entry.metadata.key;
+        } catch (error: unknown) {
+            // Like @actions/cache, only validation errors fail a restore
+            if ((error as Error).name === ValidationError.name) {
+                throw error;
+            }
+            utils.logWarning(`Failed to restore: ${(error as Error).message}`);
+        }
+        return undefined;
+    }
+
+    async save(
+        paths: string[],
+        key: string,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        options?: UploadOptions,
+        enableCrossOsArchive = false
+    ): Promise<number> {
+        checkKeys(key);
+
+        const archive = await createArchive(paths, enableCrossOsArchive);
+        try {
+            return await this.uploadArchive(paths, key, archive);
+        } finally {
+            await removeArchive(archive.archivePath);
+        }
+    }
+
+    // Copies the archive to a temporary folder, as the caller removes it
+    async downloadArchive(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys: string[] = [],
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        options?: DownloadOptions,
+        enableCrossOsArchive = false
+    ): Promise<DownloadedArchive | undefined> {
+        checkKeys(primaryKey, restoreKeys);
+
+        const entry = await this.findEntry(
+            paths,
+            primaryKey,
+            restoreKeys,
+            enableCrossOsArchive
+        );
+        if (!entry) {
+            return undefined;
+        }
+        const archivePath = await getDownloadPath(entry.compressionMethod);
+        await fs.promises.copyFile(
+            this.getArchivePath(entry.version, entry.metadata),
+            archivePath
+        );
+        this.touch(entry.version, entry.metadata);
+        return {
+            key: entry.metadata.key,
+            archive: {
+                archivePath,
+                compressionMethod: entry.compressionMethod,
+                version: entry.version,
+                sizeInBytes: entry.metadata.sizeInBytes
+            }
+        };
+    }
+
+    async uploadArchive(
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        paths: string[],
+        key: string,
+        archive: Archive
+    ): Promise<number> {
+        checkKeys(key);
+
+        const versionDirectory = path.join(this.directory, archive.version);
+        if (fs.existsSync(this.getMetadataPath(archive.version, key))) {
+            throw new ReserveCacheError(
+                `Unable to reserve cache with key ${key}, an entry with this key already exists in ${this.directory}.`
+            );
+        }
+        fs.mkdirSync(versionDirectory, { recursive: true });
+
+        // Copy under a temporary name first, so a partially written archive is never restored
+        const archiveName = `${getEntryName(key)}-${getArchiveFileName(
+            archive.compressionMethod
+        )}`;
+        const temporaryPath = path.join(
+            versionDirectory,
+            `.${archiveName}.${process.pid}.tmp`
+        );
+        await fs.promises.copyFile(archive.archivePath, temporaryPath);
+        await fs.promises.rename(
+            temporaryPath,
+            path.join(versionDirectory, archiveName)
+        );
+
+        // Left behind when the previous entry with this key was deleted while it was restored
+        await fs.promises.rm(this.getAccessPath(archive.version, key), {
+            force: true
+        });
+        const now = new Date().toISOString();
+        this.writeMetadata(archive.version, {
+            key,
+            archive: archiveName,
+            sizeInBytes: archive.sizeInBytes,
+            ref: process.env[RefKey],
+            createdAt: now,
+            lastAccessedAt: now
+        });
+
+        // Entries in a directory have no id
+        return 0;
+    }
+
+    lookup(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        enableCrossOsArchive?: boolean
+    ): Promise<string | undefined> {
+        return this.restore(
+            paths,
+            primaryKey,
+            restoreKeys,
+            { lookupOnly: true },
+            enableCrossOsArchive
+        );
+    }
+
+    canDelete(): boolean {
+        return true;
+    }
+
+    async delete(key: string): Promise<boolean> {
+        let deleted = false;
+        for (const version of this.listVersions()) {
+            const metadataPath = this.getMetadataPath(version, key);
+            if (!fs.existsSync(metadataPath)) {
+                continue;
+            }
+            const metadata = this.readMetadata(metadataPath);
+            if (metadata?.key !== key) {
+                continue;
+            }
+            // Metadata goes first, so the entry is never found without its archive
+            await fs.promises.rm(metadataPath, { force: true });
+            await fs.promises.rm(
+                path.join(this.directory, version, metadata.archive),
+                { force: true }
+            );
+            await fs.promises.rm(this.getAccessPath(version, key), {
+                force: true
+            });
+            core.info(`Deleted cache entry ${key} from ${this.directory}`);
+            deleted = true;
+        }
+        return deleted;
+    }
+
+    async list(prefix = ""): Promise<CacheEntry[]> {
+        return this.listVersions()
+            .flatMap(version => this.readVersion(version))
+            .filter(metadata => metadata.key.startsWith(prefix))
+            .map(metadata => this.toCacheEntry(metadata));
+    }
+
+    async describe(
+        paths: string[],
+        key: string,
+        enableCrossOsArchive = false
+    ): Promise<CacheEntry | undefined> {
+        const { version } = await getArchiveVersion(
+            paths,
+            enableCrossOsArchive
+        );
+        const metadataPath = this.getMetadataPath(version, key);
+        const metadata = fs.existsSync(metadataPath)
+            ? this.readMetadata(metadataPath)
+            : undefined;
+        return metadata?.key === key ? this.toCacheEntry(metadata) : undefined;
+    }
+
+    async findEntries(
+        paths: string[],
+        keys: string[],
+        enableCrossOsArchive = false
+    ): Promise<CacheEntry[]> {
+        const { version } = await getArchiveVersion(
+            paths,
+            enableCrossOsArchive
+        );
+        return this.readVersion(version)
+            .filter(metadata => keys.some(key => metadata.key.startsWith(key)))
+            .map(metadata => this.toCacheEntry(metadata));
+    }
+
+    // Finds the entry like the Actions cache service, among the entries of the version of `paths`
+    private async findEntry(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys: string[],
+        enableCrossOsArchive: boolean
+    ): Promise<LocalCacheEntry | undefined> {
+        const { compressionMethod, version } = await getArchiveVersion(
+            paths,
+            enableCrossOsArchive
+        );
+        const entries = this.readVersion(version);
+        const entry = findCacheEntry(
+            entries.map(metadata => this.toCacheEntry(metadata)),
+            primaryKey,
+            restoreKeys
+        );
+        if (!entry) {
+            core.debug(
+                `Cache not found in ${this.directory} for version ${version}`
+            );
+            return undefined;
+        }
+        core.info(`Cache hit for: ${entry.key}`);
+        const metadata = entries.find(
+            metadata => metadata.key === entry.key
+        ) as LocalCacheMetadata;
+        return { metadata, compressionMethod, version };
+    }
+
+    private getArchivePath(
+        version: string,
+        metadata: LocalCacheMetadata
+    ): string {
+        return path.join(this.directory, version, metadata.archive);
+    }
+
+    // Restored entries are the most recently used ones for the disk cache. The time is kept in a
+    // file of its own, as writing the metadata again would bring back an entry that was deleted
+    // during the restore, without its archive.
+    private touch(version: string, metadata: LocalCacheMetadata): void {
+        fs.writeFileSync(this.getAccessPath(version, metadata.key), "");
+    }
+
+    private listVersions(): string[] {
+        if (!fs.existsSync(this.directory)) {
+            return [];
+        }
+        return fs
+            .readdirSync(this.directory, { withFileTypes: true })
+            .filter(entry => entry.isDirectory())
+            .map(entry => entry.name);
+    }
+
+    private readVersion(version: string): LocalCacheMetadata[] {
+        const versionDirectory = path.join(this.directory, version);
+        if (!fs.existsSync(versionDirectory)) {
+            return [];
+        }
+        return fs
+            .readdirSync(versionDirectory)
+            .filter(name => name.endsWith(metadataExtension))
+            .map(name => this.readMetadata(path.join(versionDirectory, name)))
+            .filter((metadata): metadata is LocalCacheMetadata => !!metadata);
+    }
+
+    private readMetadata(metadataPath: string): LocalCacheMetadata | undefined {
+        try {
+            const metadata: LocalCacheMetadata = JSON.parse(
+                fs.readFileSync(metadataPath, "utf8")
+            );
+            // Restores only modify the access file, see `touch`
+            const accessPath =
+                metadataPath.slice(0, -metadataExtension.length) +
+                accessExtension;
+            const accessed = fs.statSync(accessPath, { throwIfNoEntry: false });
+            return accessed
+                ? { ...metadata, lastAccessedAt: accessed.mtime.toISOString() }
+                : metadata;
+        } catch (error: unknown) {
+            core.debug(
+                `Skipping unreadable cache entry ${metadataPath}: ${
+                    (error as Error).message
+                }`
+            );
+            return undefined;
+        }
+    }
+
+    private writeMetadata(version: string, metadata: LocalCacheMetadata): void {
+        const metadataPath = this.getMetadataPath(version, metadata.key);
+        const temporaryPath = `${metadataPath}.${process.pid}.tmp`;
+        fs.writeFileSync(temporaryPath, JSON.stringify(metadata));
+        fs.renameSync(temporaryPath, metadataPath);
+    }
+
+    private getMetadataPath(version: string, key: string): string {
+        return path.join(
+            this.directory,
+            version,
+            `${getEntryName(key)}${metadataExtension}`
+        );
+    }
+
+    private getAccessPath(version: string, key: string): string {
+        return path.join(
+            this.directory,
+            version,
+            `${getEntryName(key)}${accessExtension}`
+        );
+    }
+
+    private toCacheEntry(metadata: LocalCacheMetadata): CacheEntry {
+        return {
+            key: metadata.key,
+            ref: metadata.ref,
+            sizeInBytes: metadata.sizeInBytes,
+            createdAt: new Date(metadata.createdAt),
+            lastAccessedAt: new Date(metadata.lastAccessedAt)
+        };
+    }
+}
+
+// Keys can contain characters that are not valid in file names, or be too long for one
+function getEntryName(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+}
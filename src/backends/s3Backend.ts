@@ -0,0 +1,504 @@
+import { ReserveCacheError, ValidationError } from "@actions/cache";
+import { CompressionMethod } from "@actions/cache/lib/internal/constants";
+import { DownloadOptions, UploadOptions } from "@actions/cache/lib/options";
+import * as core from "@actions/core";
+import {
+    _Object,
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    S3Client
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import * as fs from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+import { RefKey } from "../constants";
+import * as utils from "../utils/actionUtils";
+import { getAbortSignal } from "../utils/timeout";
+import {
+    Archive,
+    checkKeys,
+    createArchive,
+    extractArchive,
+    getArchiveVersion,
+    getDownloadPath,
+    removeArchive
+} from "./archive";
+import {
+    BackendType,
+    CacheEntry,
+    DownloadedArchive,
+    findCacheEntry,
+    IArchiveBackend
+} from "./backend";
+
+export interface S3BackendOptions {
+    bucket: string;
+    prefix?: string;
+    endpoint?: string;
+    region?: string;
+    forcePathStyle?: boolean;
+    credentials?: {
+        accessKeyId: string;
+        secretAccessKey: string;
+        sessionToken?: string;
+    };
+}
+
+interface S3ArchiveMatch {
+    key: string;
+    compressionMethod: CompressionMethod;
+    version: string;
+}
+
+// Multipart uploads need parts of at least 5 MiB, and have at most 10,000 parts
+const minimumPartSize = 5 * 1024 * 1024;
+const maximumPartCount = 10000;
+const defaultPartSize = 32 * 1024 * 1024;
+const uploadQueueSize = 4;
+
+// The requested part size, raised for archives that would otherwise need too many parts
+export function getPartSize(
+    archiveSizeInBytes: number,
+    requestedPartSize = defaultPartSize
+): number {
+    return Math.max(
+        requestedPartSize,
+        minimumPartSize,
+        Math.ceil(archiveSizeInBytes / maximumPartCount)
+    );
+}
+
+// Stores archives in an S3-compatible bucket, e.g. Amazon S3, MinIO or Ceph RGW. Cache keys are
+// part of the object keys, so restore keys are prefix-matched by listing the bucket:
+//   <prefix><version>/<key>
+export class S3CacheBackend implements IArchiveBackend {
+    readonly type: BackendType = BackendType.S3;
+    readonly bucket: string;
+    readonly prefix: string;
+    private readonly client: S3Client;
+
+    constructor(options: S3BackendOptions) {
+        this.bucket = options.bucket;
+        this.prefix = options.prefix ?? "";
+        this.client = new S3Client({
+            endpoint: options.endpoint || undefined,
+            region: options.region || "us-east-1",
+            forcePathStyle: options.forcePathStyle,
+            credentials: options.credentials,
+            // Not every S3-compatible service supports the newer default checksums
+            requestChecksumCalculation: "WHEN_REQUIRED",
+            responseChecksumValidation: "WHEN_REQUIRED"
+        });
+    }
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    async restore(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys: string[] = [],
+        options?: DownloadOptions,
+        enableCrossOsArchive = false
+    ): Promise<string | undefined> {
+        checkKeys(primaryKey, restoreKeys);
+
+        let archivePath: string | undefined;
+        try {
+            const match = await this.findArchive(
+                paths,
+                primaryKey,
+                restoreKeys,
+                enableCrossOsArchive
+            );
+            if (!match) {
+                return undefined;
+            }
+            if (options?.lookupOnly) {
+                core.info("Lookup only - skipping download");
+                return match.key;
+            }
+
+            const archive = await this.download(match);
+            archivePath = archive.archivePath;
+            core.info(
+                `Cache Size: ~${Math.round(
+                    archive.sizeInBytes / (1024 * 1024)
+                )} MB (${archive.sizeInBytes} B)`
+            );
+            await extractArchive(archivePath, archive.compressionMethod);
+            core.info("Cache restored successfully");
+            return match.key;
+        } catch (error: unknown) {
+            // Like @actions/cache, only validation errors fail a restore
+            if ((error as Error).name === ValidationError.name) {
+                throw error;
+            }
+            utils.logWarning(`Failed to restore: ${(error as Error).message}`);
+        } finally {
+            if (archivePath) {
+                await removeArchive(archivePath);
+            }
+        }
+        return undefined;
+    }
+
+    async save(
+        paths: string[],
+        key: string,
+        options?: UploadOptions,
+        enableCrossOsArchive = false
+    ): Promise<number> {
+        checkKeys(key);
+
+        const archive = await createArchive(paths, enableCrossOsArchive);
+        try {
+            return await this.uploadArchive(paths, key, archive, options);
+        } finally {
+            await removeArchive(archive.archivePath);
+        }
+    }
+
+    async downloadArchive(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys: string[] = [],
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        options?: DownloadOptions,
+        enableCrossOsArchive = false
+    ): Promise<DownloadedArchive | undefined> {
+        checkKeys(primaryKey, restoreKeys);
+
+        const match = await this.findArchive(
+            paths,
+            primaryKey,
+            restoreKeys,
+            enableCrossOsArchive
+        );
+        return match
+            ? { key: match.key, archive: await this.download(match) }
+            : undefined;
+    }
+
+    async uploadArchive(
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        paths: string[],
+        key: string,
+        archive: Archive,
+        options?: UploadOptions
+    ): Promise<number> {
+        checkKeys(key);
+
+        const objectKey = this.getObjectKey(archive.version, key);
+        if (await this.exists(objectKey)) {
+            throw new ReserveCacheError(
+                `Unable to reserve cache with key ${key}, an entry with this key already exists in s3://${this.bucket}/${this.prefix}.`
+            );
+        }
+
+        core.info(
+            `Uploading ${archive.sizeInBytes} B to s3://${this.bucket}/${objectKey}`
+        );
+        // Objects only become visible once the (multipart) upload completes
+        const upload = new Upload({
+            client: this.client,
+            params: {
+                Bucket: this.bucket,
+                Key: objectKey,
+                Body: fs.createReadStream(archive.archivePath),
+                // Listings do not return the metadata, `findEntries` requests it per object
+                Metadata: process.env[RefKey]
+                    ? { ref: process.env[RefKey] as string }
+                    : undefined
+            },
+            partSize: getPartSize(
+                archive.sizeInBytes,
+                options?.uploadChunkSize
+            ),
+            queueSize: uploadQueueSize
+        });
+        // Stops the parts still uploading once the step times out, which also removes the parts
+        // uploaded so far
+        const signal = getAbortSignal();
+        const onAbort = (): void => void upload.abort();
+        signal.addEventListener("abort", onAbort, { once: true });
+        try {
+            await upload.done();
+        } finally {
+            signal.removeEventListener("abort", onAbort);
+        }
+
+        // Objects have no numeric id
+        return 0;
+    }
+
+    lookup(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys?: string[],
+        enableCrossOsArchive?: boolean
+    ): Promise<string | undefined> {
+        return this.restore(
+            paths,
+            primaryKey,
+            restoreKeys,
+            { lookupOnly: true },
+            enableCrossOsArchive
+        );
+    }
+
+    canDelete(): boolean {
+        return true;
+    }
+
+    async delete(key: string): Promise<boolean> {
+        let deleted = false;
+        for (const version of await this.listVersions()) {
+            const objectKey = this.getObjectKey(version, key);
+            if (!(await this.exists(objectKey))) {
+                continue;
+            }
+            await this.client.send(
+                new DeleteObjectCommand({
+                    Bucket: this.bucket,
+                    Key: objectKey
+                }),
+                { abortSignal: getAbortSignal() }
+            );
+            core.info(
+                `Deleted cache entry ${key} from s3://${this.bucket}/${this.prefix}`
+            );
+            deleted = true;
+        }
+        return deleted;
+    }
+
+    async list(prefix = ""): Promise<CacheEntry[]> {
+        const entries: CacheEntry[] = [];
+        for (const object of await this.listObjects(this.prefix)) {
+            const [version, key] = this.parseObjectKey(object.Key ?? "");
+            if (version && key?.startsWith(prefix)) {
+                entries.push(this.toCacheEntry(key, object));
+            }
+        }
+        return entries;
+    }
+
+    // A single request for the object, instead of listing every version of the bucket prefix
+    async describe(
+        paths: string[],
+        key: string,
+        enableCrossOsArchive = false
+    ): Promise<CacheEntry | undefined> {
+        const { version } = await getArchiveVersion(
+            paths,
+            enableCrossOsArchive
+        );
+        return this.headEntry(version, key);
+    }
+
+    async findEntries(
+        paths: string[],
+        keys: string[],
+        enableCrossOsArchive = false
+    ): Promise<CacheEntry[]> {
+        const { version } = await getArchiveVersion(
+            paths,
+            enableCrossOsArchive
+        );
+        const versionPrefix = this.getObjectKey(version, "");
+        const matchedKeys = new Set<string>();
+        for (const key of keys) {
+            for (const object of await this.listObjects(
+                this.getObjectKey(version, key)
+            )) {
+                matchedKeys.add((object.Key ?? "").slice(versionPrefix.length));
+            }
+        }
+
+        const entries: CacheEntry[] = [];
+        for (const key of matchedKeys) {
+            const entry = await this.headEntry(version, key);
+            if (entry) {
+                entries.push(entry);
+            }
+        }
+        return entries;
+    }
+
+    private async findArchive(
+        paths: string[],
+        primaryKey: string,
+        restoreKeys: string[],
+        enableCrossOsArchive: boolean
+    ): Promise<S3ArchiveMatch | undefined> {
+        const { compressionMethod, version } = await getArchiveVersion(
+            paths,
+            enableCrossOsArchive
+        );
+        const entry = await this.findEntry(version, primaryKey, restoreKeys);
+        if (!entry) {
+            core.debug(
+                `Cache not found in s3://${this.bucket}/${this.prefix}${version}/`
+            );
+            return undefined;
+        }
+        core.info(`Cache hit for: ${entry.key}`);
+        return { key: entry.key, compressionMethod, version };
+    }
+
+    // Downloads to a temporary folder, which is removed again when the download fails
+    private async download(match: S3ArchiveMatch): Promise<Archive> {
+        const archivePath = await getDownloadPath(match.compressionMethod);
+        try {
+            const response = await this.client.send(
+                new GetObjectCommand({
+                    Bucket: this.bucket,
+                    Key: this.getObjectKey(match.version, match.key)
+                }),
+                { abortSignal: getAbortSignal() }
+            );
+            await pipeline(
+                response.Body as Readable,
+                fs.createWriteStream(archivePath),
+                { signal: getAbortSignal() }
+            );
+        } catch (error: unknown) {
+            await removeArchive(archivePath);
+            throw error;
+        }
+        return {
+            archivePath,
+            compressionMethod: match.compressionMethod,
+            version: match.version,
+            sizeInBytes: fs.statSync(archivePath).size
+        };
+    }
+
+    // Lists each key separately, so only entries that can match are fetched
+    private async findEntry(
+        version: string,
+        primaryKey: string,
+        restoreKeys: string[]
+    ): Promise<CacheEntry | undefined> {
+        const versionPrefix = this.getObjectKey(version, "");
+        for (const key of [primaryKey, ...restoreKeys]) {
+            const entries = (
+                await this.listObjects(this.getObjectKey(version, key))
+            ).map(object =>
+                this.toCacheEntry(
+                    (object.Key ?? "").slice(versionPrefix.length),
+                    object
+                )
+            );
+            const entry = findCacheEntry(entries, key);
+            if (entry) {
+                return entry;
+            }
+        }
+        return undefined;
+    }
+
+    private async listObjects(prefix: string): Promise<_Object[]> {
+        const objects: _Object[] = [];
+        let continuationToken: string | undefined;
+        do {
+            const response = await this.client.send(
+                new ListObjectsV2Command({
+                    Bucket: this.bucket,
+                    Prefix: prefix,
+                    ContinuationToken: continuationToken
+                }),
+                { abortSignal: getAbortSignal() }
+            );
+            objects.push(...(response.Contents ?? []));
+            continuationToken = response.IsTruncated
+                ? response.NextContinuationToken
+                : undefined;
+        } while (continuationToken);
+        return objects;
+    }
+
+    private async listVersions(): Promise<string[]> {
+        const versions = new Set<string>();
+        for (const object of await this.listObjects(this.prefix)) {
+            const [version] = this.parseObjectKey(object.Key ?? "");
+            if (version) {
+                versions.add(version);
+            }
+        }
+        return [...versions];
+    }
+
+    // Unlike listings, also returns the ref the entry was saved on
+    private async headEntry(
+        version: string,
+        key: string
+    ): Promise<CacheEntry | undefined> {
+        try {
+            const response = await this.client.send(
+                new HeadObjectCommand({
+                    Bucket: this.bucket,
+                    Key: this.getObjectKey(version, key)
+                }),
+                { abortSignal: getAbortSignal() }
+            );
+            return {
+                key,
+                ref: response.Metadata?.ref,
+                sizeInBytes: response.ContentLength,
+                createdAt: response.LastModified
+            };
+        } catch (error: unknown) {
+            if ((error as Error).name === "NotFound") {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    private async exists(objectKey: string): Promise<boolean> {
+        try {
+            await this.client.send(
+                new HeadObjectCommand({ Bucket: this.bucket, Key: objectKey }),
+                { abortSignal: getAbortSignal() }
+            );
+            return true;
+        } catch (error: unknown) {
+            if ((error as Error).name === "NotFound") {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private getObjectKey(version: string, key: string): string {
+        return `${this.prefix}${version}/${key}`;
+    }
+
+    // Returns the version and the cache key of an object, if it is a cache entry
+    private parseObjectKey(objectKey: string): [string?, string?] {
+        if (!objectKey.startsWith(this.prefix)) {
+            return [];
+        }
+        const name = objectKey.slice(this.prefix.length);
+        const separator = name.indexOf("/");
+        if (separator <= 0) {
+            return [];
+        }
+        return [name.slice(0, separator), name.slice(separator + 1)];
+    }
+
+    private toCacheEntry(key: string, object: _Object): CacheEntry {
+        return {
+            key,
+            sizeInBytes: object.Size,
+            createdAt: object.LastModified
+        };
+    }
+}
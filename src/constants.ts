@@ -5,25 +5,96 @@ export enum Inputs {
     UploadChunkSize = "upload-chunk-size", // Input for cache, save action
     EnableCrossOsArchive = "enableCrossOsArchive", // Input for cache, restore, save action
     FailOnCacheMiss = "fail-on-cache-miss", // Input for cache, restore action
+    FailOnCacheOlderThan = "fail-on-cache-older-than", // Input for cache, restore action
     LookupOnly = "lookup-only", // Input for cache, restore action
-    RefreshCache = "refresh-cache" // Input for cache, save action
+    RefreshCache = "refresh-cache", // Input for cache, save action
+    Caches = "caches", // Input for cache, restore, save action
+    RecomputeKey = "recompute-key", // Input for cache, save action
+    UnchangedCheck = "unchanged-check", // Input for cache action
+    Backend = "backend", // Input for cache, restore, save action
+    LocalPath = "local-path", // Input for cache, restore, save action
+    S3Bucket = "s3-bucket", // Input for cache, restore, save action
+    S3Prefix = "s3-prefix", // Input for cache, restore, save action
+    S3Endpoint = "s3-endpoint", // Input for cache, restore, save action
+    S3Region = "s3-region", // Input for cache, restore, save action
+    S3ForcePathStyle = "s3-force-path-style", // Input for cache, restore, save action
+    S3AccessKeyId = "s3-access-key-id", // Input for cache, restore, save action
+    S3SecretAccessKey = "s3-secret-access-key", // Input for cache, restore, save action
+    S3SessionToken = "s3-session-token", // Input for cache, restore, save action
+    Token = "token", // Input for cache, save action
+    FailOnRefreshError = "fail-on-refresh-error", // Input for cache, save action
+    KeyPrefix = "key-prefix", // Input for prune action
+    Ref = "ref", // Input for prune action
+    MaxAge = "max-age", // Input for prune action
+    MaxEntries = "max-entries", // Input for prune action
+    MaxTotalSize = "max-total-size", // Input for prune action
+    DryRun = "dry-run", // Input for cache, restore, save, prune action
+    JobSummary = "job-summary", // Input for cache, restore, save action
+    CacheHitFalseOnMiss = "cache-hit-false-on-miss", // Input for cache, restore action
+    Checksums = "checksums", // Input for cache, restore, save action
+    ChecksumMismatch = "checksum-mismatch", // Input for cache, restore action
+    Exclude = "exclude", // Input for cache, restore, save action
+    MaxSize = "max-size", // Input for cache, save action
+    FailOnMaxSize = "fail-on-max-size", // Input for cache, save action
+    SaveOnRefs = "save-on-refs", // Input for cache, save action
+    SkipSaveOnRefs = "skip-save-on-refs", // Input for cache, save action
+    SaveOn = "save-on", // Input for cache action
+    RestoreRefs = "restore-refs", // Input for cache, restore action
+    DiskCachePath = "disk-cache-path", // Input for cache, restore, save action
+    DiskCacheMaxSize = "disk-cache-max-size", // Input for cache, restore, save action
+    EventLog = "event-log", // Input for cache, restore, save action
+    FailOnSaveError = "fail-on-save-error", // Input for cache, save action
+    Retries = "retries", // Input for cache, restore, save, prune action
+    RetryBackoff = "retry-backoff", // Input for cache, restore, save, prune action
+    Timeout = "timeout", // Input for cache, restore, save action
+    WarningLevel = "warning-level" // Input for cache, restore, save, prune action
 }
 
 export enum Outputs {
     CacheHit = "cache-hit", // Output from cache, restore action
+    CacheResult = "cache-result", // Output from cache, restore action
     CachePrimaryKey = "cache-primary-key", // Output from restore action
-    CacheMatchedKey = "cache-matched-key" // Output from restore action
+    CacheMatchedKey = "cache-matched-key", // Output from restore action
+    CacheMatchType = "cache-match-type", // Output from cache, restore action
+    CacheRestoreKeyIndex = "cache-restore-key-index", // Output from cache, restore action
+    CacheSize = "cache-size", // Output from cache, restore action
+    CacheDownloadDuration = "cache-download-duration", // Output from cache, restore action
+    CacheCreatedAt = "cache-created-at", // Output from cache, restore action
+    DiskCacheHit = "disk-cache-hit", // Output from cache, restore action
+    DryRunPlan = "dry-run-plan", // Output from cache, restore, save action
+    RestoreAttempts = "restore-attempts", // Output from cache, restore action
+    SaveAttempts = "save-attempts", // Output from save action
+    CacheUnchanged = "cache-unchanged", // Output from cache action
+    DeletedCount = "deleted-count", // Output from prune action
+    FreedBytes = "freed-bytes" // Output from prune action
 }
 
 export enum State {
     CachePrimaryKey = "CACHE_KEY",
-    CacheMatchedKey = "CACHE_RESULT"
+    CacheMatchedKey = "CACHE_RESULT",
+    CacheManifest = "CACHE_MANIFEST",
+    SaveOn = "SAVE_ON",
+    RestoreTimedOut = "RESTORE_TIMED_OUT"
+}
+
+// The job statuses the post step of the cache action saves on
+export enum SaveOn {
+    Success = "success",
+    Failure = "failure",
+    Always = "always"
 }
 
 export enum Events {
     Key = "GITHUB_EVENT_NAME",
     Push = "push",
-    PullRequest = "pull_request"
+    PullRequest = "pull_request",
+    PullRequestTarget = "pull_request_target"
 }
 
+export const EventPathKey = "GITHUB_EVENT_PATH";
+
 export const RefKey = "GITHUB_REF";
+
+// Exported by the main step of the cache action when its `save-on` needs the post step to run
+// whatever the job status is, which `post-if` in action.yml checks
+export const SaveOnAnyStatusKey = "CACHE_SAVE_ON_ANY_STATUS";
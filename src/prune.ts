@@ -0,0 +1,3 @@
+import { pruneRun } from "./pruneImpl";
+
+pruneRun(true);
@@ -0,0 +1,229 @@
+import * as core from "@actions/core";
+
+import { Inputs, Outputs } from "./constants";
+import * as utils from "./utils/actionUtils";
+import { matchesRefPatterns } from "./utils/refPattern";
+import { formatSize, parseDuration, parseSize } from "./utils/units";
+
+export interface PruneOptions {
+    keyPrefixes: string[];
+    refPatterns: string[];
+    maxAge?: number; // In milliseconds, since the entry was last accessed
+    maxEntries?: number; // Per key prefix
+    maxTotalSize?: number; // In bytes, per key prefix
+}
+
+export interface PruneResult {
+    deletedCount: number;
+    freedBytes: number;
+}
+
+// An invalid budget must not be ignored, as pruning without budgets deletes every matching entry
+function parseMaxEntries(value: string): number {
+    if (!/^\d+$/.test(value.trim())) {
+        throw new Error(
+            `Input Validation Error: ${Inputs.MaxEntries} must be a number of entries, got ${value}.`
+        );
+    }
+    return parseInt(value);
+}
+
+export function getPruneOptions(): PruneOptions {
+    const maxAge = core.getInput(Inputs.MaxAge);
+    const maxEntries = core.getInput(Inputs.MaxEntries);
+    const maxTotalSize = core.getInput(Inputs.MaxTotalSize);
+    return {
+        keyPrefixes: utils.getInputAsArray(Inputs.KeyPrefix),
+        refPatterns: utils.getInputAsArray(Inputs.Ref),
+        maxAge: maxAge ? parseDuration(Inputs.MaxAge, maxAge, "d") : undefined,
+        maxEntries: maxEntries ? parseMaxEntries(maxEntries) : undefined,
+        maxTotalSize: maxTotalSize
+            ? parseSize(Inputs.MaxTotalSize, maxTotalSize)
+            : undefined
+    };
+}
+
+function getLastAccessedTime(entry: utils.ActionsCacheEntry): number {
+    const lastAccessedAt = entry.last_accessed_at || entry.created_at;
+    return lastAccessedAt ? new Date(lastAccessedAt).getTime() : 0;
+}
+
+// Entries are grouped by the longest key prefix they match, for the per-prefix budgets
+function getKeyPrefix(key: string, keyPrefixes: string[]): string | undefined {
+    if (keyPrefixes.length === 0) {
+        return "";
+    }
+    return keyPrefixes
+        .filter(prefix => key.startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+}
+
+// Returns the entries to delete. Only entries matching a key prefix and a ref pattern are
+// considered; of those, entries not accessed within `maxAge` are deleted, and then the least
+// recently accessed entries of every key prefix that does not fit the count and size budgets.
+// Without any age or budget, every considered entry is deleted.
+export function selectEntriesToPrune(
+    entries: utils.ActionsCacheEntry[],
+    options: PruneOptions,
+    now = Date.now()
+): utils.ActionsCacheEntry[] {
+    const groups = new Map<string, utils.ActionsCacheEntry[]>();
+    for (const entry of entries) {
+        const prefix = getKeyPrefix(entry.key ?? "", options.keyPrefixes);
+        if (
+            prefix === undefined ||
+            (options.refPatterns.length > 0 &&
+                !matchesRefPatterns(entry.ref ?? "", options.refPatterns))
+        ) {
+            continue;
+        }
+        groups.set(prefix, [...(groups.get(prefix) ?? []), entry]);
+    }
+
+    const hasCriteria =
+        options.maxAge !== undefined ||
+        options.maxEntries !== undefined ||
+        options.maxTotalSize !== undefined;
+    const selected: utils.ActionsCacheEntry[] = [];
+    for (const group of groups.values()) {
+        if (!hasCriteria) {
+            selected.push(...group);
+            continue;
+        }
+
+        let count = 0;
+        let totalSize = 0;
+        let overBudget = false;
+        const byLastAccess = [...group].sort(
+            (a, b) => getLastAccessedTime(b) - getLastAccessedTime(a)
+        );
+        for (const entry of byLastAccess) {
+            if (
+                options.maxAge !== undefined &&
+                now - getLastAccessedTime(entry) > options.maxAge
+            ) {
+                selected.push(entry);
+                continue;
+            }
+            count += 1;
+            totalSize += entry.size_in_bytes ?? 0;
+            overBudget =
+                overBudget ||
+                (options.maxEntries !== undefined &&
+                    count > options.maxEntries) ||
+                (options.maxTotalSize !== undefined &&
+                    totalSize > options.maxTotalSize);
+            if (overBudget) {
+                selected.push(entry);
+            }
+        }
+    }
+    return selected;
+}
+
+function describeEntry(entry: utils.ActionsCacheEntry): string {
+    return `${entry.key} (id: ${entry.id}, ref: ${
+        entry.ref
+    }, size: ${formatSize(entry.size_in_bytes ?? 0)}, last accessed: ${
+        entry.last_accessed_at
+    })`;
+}
+
+export async function pruneImpl(): Promise<PruneResult | void> {
+    try {
+        const [owner, repo] = (process.env["GITHUB_REPOSITORY"] || "").split(
+            "/"
+        );
+        if (!owner || !repo) {
+            throw new Error(
+                "The repository is unknown, GITHUB_REPOSITORY is not set."
+            );
+        }
+        const token =
+            core.getInput(Inputs.Token) || process.env["GITHUB_TOKEN"];
+        const options = getPruneOptions();
+        const dryRun = utils.getInputAsBool(Inputs.DryRun);
+
+        // When a pull request is closed, its caches can no longer be restored by any workflow
+        const pullRequestNumber = utils.getClosedPullRequestNumber();
+        if (
+            pullRequestNumber !== undefined &&
+            options.refPatterns.length === 0
+        ) {
+            options.refPatterns = [utils.getPullRequestRef(pullRequestNumber)];
+            core.info(
+                `Pruning the caches of closed pull request #${pullRequestNumber}.`
+            );
+        } else if (
+            options.keyPrefixes.length === 0 &&
+            options.refPatterns.length === 0 &&
+            options.maxAge === undefined &&
+            options.maxEntries === undefined &&
+            options.maxTotalSize === undefined
+        ) {
+            throw new Error(
+                `Input Validation Error: At least one of ${Inputs.KeyPrefix}, ${Inputs.Ref}, ${Inputs.MaxAge}, ${Inputs.MaxEntries} or ${Inputs.MaxTotalSize} is required, unless a pull request was closed.`
+            );
+        }
+
+        // The API matches a key prefix and an exact ref itself, which saves listing unrelated entries
+        const [refPattern] = options.refPatterns;
+        const entries = await utils.listCacheEntries(
+            owner,
+            repo,
+            {
+                key:
+                    options.keyPrefixes.length === 1
+                        ? options.keyPrefixes[0]
+                        : undefined,
+                ref:
+                    options.refPatterns.length === 1 && !/[*!]/.test(refPattern)
+                        ? refPattern
+                        : undefined
+            },
+            token
+        );
+        core.info(`Found ${entries.length} cache entries.`);
+
+        const result: PruneResult = { deletedCount: 0, freedBytes: 0 };
+        for (const entry of selectEntriesToPrune(entries, options)) {
+            if (dryRun) {
+                core.info(`Would delete cache entry ${describeEntry(entry)}`);
+            } else if (
+                entry.id !== undefined &&
+                (await utils.deleteCacheById(entry.id, owner, repo, token))
+            ) {
+                core.info(`Deleted cache entry ${describeEntry(entry)}`);
+            } else {
+                continue;
+            }
+            result.deletedCount += 1;
+            result.freedBytes += entry.size_in_bytes ?? 0;
+        }
+
+        core.info(
+            `${dryRun ? "Would delete" : "Deleted"} ${
+                result.deletedCount
+            } cache entries, freeing ${formatSize(result.freedBytes)}.`
+        );
+        core.setOutput(Outputs.DeletedCount, result.deletedCount.toString());
+        core.setOutput(Outputs.FreedBytes, result.freedBytes.toString());
+        return result;
+    } catch (error: unknown) {
+        core.setFailed((error as Error).message);
+    }
+}
+
+export async function pruneRun(earlyExit?: boolean | undefined): Promise<void> {
+    await pruneImpl();
+
+    // node will stay alive if any promises are not resolved,
+    // which is a possibility if HTTP requests are dangling
+    // due to retries or timeouts. We know that if we got here
+    // that all promises that we care about have successfully
+    // resolved, so simply exit, with the exit code of
+    // core.setFailed if the step failed.
+    if (earlyExit) {
+        process.exit();
+    }
+}
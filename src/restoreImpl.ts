@@ -1,21 +1,563 @@
-import * as cache from "@actions/cache";
 import * as core from "@actions/core";
 
-import { Events, Inputs, Outputs, State } from "./constants";
+import { CacheEntry, findCacheEntry, ICacheBackend } from "./backends/backend";
+import { getCacheBackend } from "./backends/backendFactory";
+import { DiskCacheBackend } from "./backends/diskCacheBackend";
+import {
+    Events,
+    Inputs,
+    Outputs,
+    RefKey,
+    SaveOn,
+    SaveOnAnyStatusKey,
+    State
+} from "./constants";
 import {
     IStateProvider,
     NullStateProvider,
     StateProvider
 } from "./stateProvider";
 import * as utils from "./utils/actionUtils";
+import {
+    CacheGroup,
+    getCacheGroups,
+    getGroupOutputName
+} from "./utils/cacheGroups";
+import { CacheEventType, logEvent } from "./utils/eventLog";
+import {
+    CacheMatch,
+    CacheSummaryEntry,
+    describeCacheEntry,
+    getCacheMatch,
+    writeJobSummary
+} from "./utils/jobSummary";
+import { evaluateKey } from "./utils/keyTemplate";
+import {
+    ChecksumMismatchAction,
+    computeManifestDigest,
+    getArchivePaths,
+    getChecksumMismatchAction,
+    getManifestMode,
+    ManifestMode,
+    removeChecksumManifest,
+    removeWorkspaceFiles,
+    verifyChecksumManifest
+} from "./utils/manifest";
+import { matchesRefPatterns } from "./utils/refPattern";
+import {
+    getAttemptCount,
+    getRetryPolicy,
+    RestoreOperation
+} from "./utils/retry";
+import { getTimeout, startTimeout, untilTimeout } from "./utils/timeout";
+import { parseDuration } from "./utils/units";
+
+// `true` fails when no entry is found at all, `exact` also fails on a partial match
+enum FailOnCacheMissMode {
+    Off = "false",
+    Any = "true",
+    Exact = "exact"
+}
+
+function getFailOnCacheMissMode(): FailOnCacheMissMode {
+    const value = (
+        core.getInput(Inputs.FailOnCacheMiss) || FailOnCacheMissMode.Off
+    ).toLowerCase();
+    if (
+        !Object.values(FailOnCacheMissMode).includes(
+            value as FailOnCacheMissMode
+        )
+    ) {
+        throw new Error(
+            `Input Validation Error: ${
+                Inputs.FailOnCacheMiss
+            } must be one of ${Object.values(FailOnCacheMissMode).join(", ")}.`
+        );
+    }
+    return value as FailOnCacheMissMode;
+}
+
+// The restore key that matched, if the entry was not found by the primary key. Keys are tried
+// in order, so the first key prefixing the matched key is the one that matched.
+function getRestoreKeyIndex(
+    primaryKey: string,
+    restoreKeys: string[],
+    matchedKey: string
+): number | undefined {
+    if (matchedKey.startsWith(primaryKey)) {
+        return undefined;
+    }
+    const index = restoreKeys.findIndex(key => matchedKey.startsWith(key));
+    return index >= 0 ? index : undefined;
+}
+
+// The `cache-result` output, which tells a partial match from a miss unlike `cache-hit`
+function getCacheResult(primaryKey: string, matchedKey?: string): string {
+    const cacheMatch = getCacheMatch(primaryKey, matchedKey);
+    return cacheMatch === CacheMatch.Prefix ? "partial" : cacheMatch;
+}
+
+// Returns whether the restored files can be used, once files that do not match the checksum
+// manifest have been handled as requested by `checksum-mismatch`.
+async function verifyRestoredFiles(
+    groupId: string,
+    cacheKey: string,
+    mismatchAction: ChecksumMismatchAction
+): Promise<boolean> {
+    let mismatches: string[] | undefined;
+    try {
+        mismatches = await verifyChecksumManifest(groupId);
+    } finally {
+        removeChecksumManifest(groupId);
+    }
+
+    // Without a manifest, which files were restored is not known either, so none are deleted
+    if (mismatches === undefined) {
+        const message = `The cache entry restored from key ${cacheKey} has no checksum manifest, the restored files could not be verified`;
+        switch (mismatchAction) {
+            case ChecksumMismatchAction.Fail:
+                throw new Error(message);
+            case ChecksumMismatchAction.Delete:
+                utils.logWarning(
+                    `${message}. The cache is reported as not found.`
+                );
+                return false;
+            default:
+                utils.logWarning(`${message}.`);
+                return true;
+        }
+    }
+    if (mismatches.length === 0) {
+        core.info(
+            `Checksums of the files restored from key ${cacheKey} verified.`
+        );
+        return true;
+    }
+
+    const maxListed = 10;
+    const listed = mismatches.slice(0, maxListed).join(", ");
+    const message = `Checksum verification failed for ${
+        mismatches.length
+    } of the files restored from key ${cacheKey}: ${listed}${
+        mismatches.length > maxListed ? ", ..." : ""
+    }`;
+    switch (mismatchAction) {
+        case ChecksumMismatchAction.Fail:
+            throw new Error(message);
+        case ChecksumMismatchAction.Delete:
+            removeWorkspaceFiles(mismatches);
+            utils.logWarning(
+                `${message}. These files were deleted and the cache is reported as not found.`
+            );
+            return false;
+        default:
+            utils.logWarning(message);
+            return true;
+    }
+}
+
+function getSaveOn(): SaveOn | undefined {
+    const value = core.getInput(Inputs.SaveOn).toLowerCase();
+    if (!value) {
+        return undefined;
+    }
+    if (!Object.values(SaveOn).includes(value as SaveOn)) {
+        throw new Error(
+            `Input Validation Error: ${
+                Inputs.SaveOn
+            } must be one of ${Object.values(SaveOn).join(", ")}.`
+        );
+    }
+    return value as SaveOn;
+}
+
+// With `restore-refs`, entries of the current ref are preferred, then entries of each of
+// `refPatterns` in order, with the same key precedence as the cache service. An entry of the
+// primary key is restored whatever its ref, and so is any other entry when no ref has one.
+async function findRefEntryKey(
+    backend: ICacheBackend,
+    paths: string[],
+    primaryKey: string,
+    restoreKeys: string[],
+    refPatterns: string[],
+    enableCrossOsArchive: boolean
+): Promise<string | undefined> {
+    let entries: CacheEntry[] | undefined;
+    try {
+        entries = await backend.findEntries(
+            paths,
+            [primaryKey, ...restoreKeys],
+            enableCrossOsArchive
+        );
+    } catch (error: unknown) {
+        utils.logWarning(
+            `Failed to look up cache entries for ${Inputs.RestoreRefs}: ${
+                (error as Error).message
+            }`
+        );
+        return undefined;
+    }
+    if (!entries) {
+        utils.logWarning(
+            `${Inputs.RestoreRefs} is ignored with the ${backend.type} backend, the cache service only restores entries of the current ref and of the refs it is based on, like the default branch or the base branch of a pull request.`
+        );
+        return undefined;
+    }
+    if (entries.some(entry => entry.key === primaryKey)) {
+        return undefined;
+    }
+
+    const refEntries = entries.filter(entry => entry.ref);
+    const scopes: [string, CacheEntry[]][] = refPatterns.map(pattern => [
+        pattern,
+        refEntries.filter(entry =>
+            matchesRefPatterns(entry.ref as string, [pattern])
+        )
+    ]);
+    const currentRef = process.env[RefKey];
+    if (currentRef) {
+        scopes.unshift([
+            currentRef,
+            refEntries.filter(entry => entry.ref === currentRef)
+        ]);
+    }
+    for (const [scope, candidates] of scopes) {
+        const entry = findCacheEntry(candidates, primaryKey, restoreKeys);
+        if (entry) {
+            core.info(
+                `Cache entry ${entry.key} found on ref ${entry.ref}, matching ${scope}.`
+            );
+            return entry.key;
+        }
+    }
+    return undefined;
+}
+
+async function restoreCacheGroup(
+    backend: ICacheBackend,
+    group: CacheGroup,
+    stateProvider: IStateProvider,
+    summaryEntries: CacheSummaryEntry[]
+): Promise<string | undefined> {
+    const primaryKey = group.key;
+    stateProvider.setState(State.CachePrimaryKey, primaryKey);
+
+    const enableCrossOsArchive = utils.getInputAsBool(
+        Inputs.EnableCrossOsArchive
+    );
+    const failOnCacheMiss = getFailOnCacheMissMode();
+    const maxAgeInput = core.getInput(Inputs.FailOnCacheOlderThan);
+    const maxAge = maxAgeInput
+        ? parseDuration(Inputs.FailOnCacheOlderThan, maxAgeInput, "d")
+        : undefined;
+    // A dry run only looks up the entry that would be restored
+    const dryRun = utils.getInputAsBool(Inputs.DryRun);
+    const lookupOnly = utils.getInputAsBool(Inputs.LookupOnly) || dryRun;
+    const cacheHitFalseOnMiss = utils.getInputAsBool(
+        Inputs.CacheHitFalseOnMiss
+    );
+    const mismatchAction = utils.getInputAsBool(Inputs.Checksums)
+        ? getChecksumMismatchAction()
+        : undefined;
+    const restoreRefs = utils.getInputAsArray(Inputs.RestoreRefs);
+
+    // A restore that outlasts the `timeout` of the step is abandoned, and reported as a miss
+    const archivePaths = getArchivePaths(group.paths, group.id);
+    let timedOut = false;
+    const restore = (
+        key: string,
+        restoreKeys: string[]
+    ): Promise<string | undefined> =>
+        untilTimeout(
+            () =>
+                backend.restore(
+                    archivePaths,
+                    key,
+                    restoreKeys,
+                    { lookupOnly: lookupOnly },
+                    enableCrossOsArchive
+                ),
+            timeout => {
+                timedOut = true;
+                // The download or extraction keeps running in the background and may leave the
+                // files partly restored, which the post step must not save
+                if (!lookupOnly) {
+                    stateProvider.setState(State.RestoreTimedOut, "true");
+                }
+                utils.logWarning(
+                    `Cache restore timed out after ${
+                        timeout / 1000
+                    } s, abandoned restoring the cache with key ${key} into ${group.paths.join(
+                        ", "
+                    )}. It is reported as a cache miss.`
+                );
+                return undefined;
+            }
+        );
+
+    const attemptsBefore = getAttemptCount(RestoreOperation);
+    const startTime = Date.now();
+    let cacheKey: string | undefined;
+    const refEntryKey =
+        restoreRefs.length > 0
+            ? await findRefEntryKey(
+                  backend,
+                  archivePaths,
+                  primaryKey,
+                  group.restoreKeys,
+                  restoreRefs,
+                  enableCrossOsArchive
+              )
+            : undefined;
+    if (refEntryKey) {
+        cacheKey = await restore(refEntryKey, []);
+    }
+    if (!cacheKey && !timedOut) {
+        cacheKey = await restore(primaryKey, group.restoreKeys);
+    }
+    const durationInMs = Date.now() - startTime;
+    const diskCacheHit =
+        backend instanceof DiskCacheBackend && backend.diskCacheHit;
+
+    let corrupted = false;
+    if (cacheKey && !lookupOnly && mismatchAction) {
+        corrupted = !(await verifyRestoredFiles(
+            group.id,
+            cacheKey,
+            mismatchAction
+        ));
+        if (corrupted) {
+            cacheKey = undefined;
+        }
+    }
+    const setOutput = (name: string, value: string): void =>
+        core.setOutput(getGroupOutputName(name, group.id), value);
+    setOutput(Outputs.CacheResult, getCacheResult(primaryKey, cacheKey));
+    setOutput(Outputs.CacheMatchType, getCacheMatch(primaryKey, cacheKey));
+    setOutput(Outputs.CacheDownloadDuration, durationInMs.toString());
+    if (backend instanceof DiskCacheBackend) {
+        setOutput(Outputs.DiskCacheHit, diskCacheHit.toString());
+    }
+    if (getRetryPolicy().retries > 0) {
+        setOutput(
+            Outputs.RestoreAttempts,
+            (getAttemptCount(RestoreOperation) - attemptsBefore).toString()
+        );
+    }
+
+    // Every outcome is recorded in the job summary and the event log
+    const addSummaryEntry = (entry: CacheSummaryEntry): void => {
+        summaryEntries.push(entry);
+        logEvent({
+            type: lookupOnly ? CacheEventType.Lookup : CacheEventType.Restore,
+            groupId: group.id,
+            key: primaryKey,
+            matchedKey: entry.matchedKey,
+            result: getCacheResult(primaryKey, cacheKey),
+            outcome: entry.outcome,
+            sizeInBytes: entry.sizeInBytes,
+            durationInMs
+        });
+        if (dryRun) {
+            setOutput(Outputs.DryRunPlan, entry.outcome);
+        }
+    };
+
+    if (!cacheKey) {
+        addSummaryEntry({
+            groupId: group.id,
+            primaryKey,
+            durationInMs,
+            outcome: corrupted
+                ? "Checksum mismatch"
+                : timedOut
+                ? "Timed out"
+                : "Not found"
+        });
+
+        // `cache-hit` is intentionally not set to `false` here to preserve existing behavior,
+        // unless requested. See https://github.com/actions/cache/issues/1466
+        if (cacheHitFalseOnMiss) {
+            setOutput(Outputs.CacheHit, "false");
+        }
+
+        if (failOnCacheMiss !== FailOnCacheMissMode.Off) {
+            throw new Error(
+                `Failed to restore cache entry. Exiting as fail-on-cache-miss is set. Input key: ${primaryKey}`
+            );
+        }
+        core.info(
+            `Cache not found for input keys: ${[
+                primaryKey,
+                ...group.restoreKeys
+            ].join(", ")}`
+        );
+        return;
+    }
+
+    // Store the matched cache key in states
+    stateProvider.setState(State.CacheMatchedKey, cacheKey);
+
+    const isExactKeyMatch = utils.isExactKeyMatch(primaryKey, cacheKey);
+
+    setOutput(Outputs.CacheHit, isExactKeyMatch.toString());
+
+    const restoreKeyIndex = getRestoreKeyIndex(
+        primaryKey,
+        group.restoreKeys,
+        cacheKey
+    );
+    if (restoreKeyIndex !== undefined) {
+        setOutput(Outputs.CacheRestoreKeyIndex, restoreKeyIndex.toString());
+    }
+
+    // Only known when the backend can look up its entries, which the github backend only does
+    // for fail-on-cache-older-than
+    const entry = await describeCacheEntry(
+        backend,
+        archivePaths,
+        cacheKey,
+        enableCrossOsArchive,
+        maxAge !== undefined
+    );
+    if (entry?.sizeInBytes !== undefined) {
+        setOutput(Outputs.CacheSize, entry.sizeInBytes.toString());
+    }
+    if (entry?.createdAt) {
+        setOutput(Outputs.CacheCreatedAt, entry.createdAt.toISOString());
+    }
+
+    if (dryRun) {
+        core.info(`Dry run: would restore cache from key: ${cacheKey}`);
+    } else if (lookupOnly) {
+        core.info(`Cache found and can be restored from key: ${cacheKey}`);
+    } else {
+        core.info(`Cache restored from key: ${cacheKey}`);
+
+        // Remember what was restored, so the save step can tell if the contents changed
+        const manifestMode = getManifestMode();
+        if (manifestMode !== ManifestMode.Off) {
+            stateProvider.setState(
+                State.CacheManifest,
+                await computeManifestDigest(group.paths, manifestMode)
+            );
+        }
+    }
+
+    addSummaryEntry({
+        groupId: group.id,
+        primaryKey,
+        matchedKey: cacheKey,
+        sizeInBytes: entry?.sizeInBytes,
+        durationInMs,
+        outcome: dryRun
+            ? "Would restore"
+            : lookupOnly
+            ? "Found, not downloaded"
+            : diskCacheHit
+            ? "Restored from disk"
+            : "Restored"
+    });
+
+    // Checked once everything is restored, so the outputs still describe the entry
+    if (failOnCacheMiss === FailOnCacheMissMode.Exact && !isExactKeyMatch) {
+        throw new Error(
+            `Failed to restore cache entry. Exiting as fail-on-cache-miss is set to exact and the entry was restored from key ${cacheKey}. Input key: ${primaryKey}`
+        );
+    }
+    if (maxAge !== undefined) {
+        if (!entry?.createdAt) {
+            throw new Error(
+                `Failed to restore cache entry. Exiting as fail-on-cache-older-than is set and the creation time of the entry restored from key ${cacheKey} is unknown.`
+            );
+        }
+        if (Date.now() - entry.createdAt.getTime() > maxAge) {
+            throw new Error(
+                `Failed to restore cache entry. Exiting as fail-on-cache-older-than is set and the entry restored from key ${cacheKey} was created at ${entry.createdAt.toISOString()}.`
+            );
+        }
+    }
+    return cacheKey;
+}
+
+// A miss or failure in one group must not keep the remaining groups from being restored,
+// so errors are collected and only reported once every group has been processed.
+async function restoreCacheGroups(
+    backend: ICacheBackend,
+    cacheGroups: CacheGroup[],
+    stateProvider: IStateProvider,
+    summaryEntries: CacheSummaryEntry[]
+): Promise<void> {
+    const errors: string[] = [];
+    let matchedGroups = 0;
+    let exactMatches = 0;
+
+    for (const group of cacheGroups) {
+        core.info(`Restoring cache group ${group.id}`);
+        try {
+            const cacheKey = await restoreCacheGroup(
+                backend,
+                group,
+                stateProvider.forGroup(group.id),
+                summaryEntries
+            );
+            if (cacheKey) {
+                matchedGroups++;
+                if (utils.isExactKeyMatch(group.key, cacheKey)) {
+                    exactMatches++;
+                }
+            }
+        } catch (error: unknown) {
+            errors.push(`[${group.id}] ${(error as Error).message}`);
+        }
+    }
+
+    if (matchedGroups > 0 || utils.getInputAsBool(Inputs.CacheHitFalseOnMiss)) {
+        core.setOutput(
+            Outputs.CacheHit,
+            (exactMatches === cacheGroups.length).toString()
+        );
+    }
+    core.setOutput(
+        Outputs.CacheResult,
+        exactMatches === cacheGroups.length
+            ? "exact"
+            : matchedGroups > 0
+            ? "partial"
+            : "miss"
+    );
+    if (errors.length > 0) {
+        throw new Error(errors.join("\n"));
+    }
+}
 
 export async function restoreImpl(
     stateProvider: IStateProvider,
     earlyExit?: boolean | undefined
 ): Promise<string | undefined> {
+    const summaryEntries: CacheSummaryEntry[] = [];
+    let failed = false;
+    let stopTimeout: (() => void) | undefined;
     try {
-        if (!utils.isCacheFeatureAvailable()) {
+        // The post step only runs when the job succeeded, unless saving on other job statuses is
+        // requested here
+        const saveOn = getSaveOn();
+        if (saveOn) {
+            stateProvider.setState(State.SaveOn, saveOn);
+            if (saveOn !== SaveOn.Success) {
+                core.exportVariable(SaveOnAnyStatusKey, "true");
+            }
+        }
+
+        const timeout = getTimeout();
+        if (timeout !== undefined) {
+            stopTimeout = startTimeout(timeout);
+        }
+
+        const backend = getCacheBackend();
+        if (!backend.isAvailable()) {
             core.setOutput(Outputs.CacheHit, "false");
+            core.setOutput(Outputs.CacheResult, "miss");
             return;
         }
 
@@ -29,65 +571,49 @@ export async function restoreImpl(
             return;
         }
 
-        const primaryKey = core.getInput(Inputs.Key, { required: true });
-        stateProvider.setState(State.CachePrimaryKey, primaryKey);
-
-        const restoreKeys = utils.getInputAsArray(Inputs.RestoreKeys);
-        const cachePaths = utils.getInputAsArray(Inputs.Path, {
-            required: true
-        });
-        const enableCrossOsArchive = utils.getInputAsBool(
-            Inputs.EnableCrossOsArchive
-        );
-        const failOnCacheMiss = utils.getInputAsBool(Inputs.FailOnCacheMiss);
-        const lookupOnly = utils.getInputAsBool(Inputs.LookupOnly);
-
-        const cacheKey = await cache.restoreCache(
-            cachePaths,
-            primaryKey,
-            restoreKeys,
-            { lookupOnly: lookupOnly },
-            enableCrossOsArchive
-        );
-
-        if (!cacheKey) {
-            // `cache-hit` is intentionally not set to `false` here to preserve existing behavior
-            // See https://github.com/actions/cache/issues/1466
-
-            if (failOnCacheMiss) {
-                throw new Error(
-                    `Failed to restore cache entry. Exiting as fail-on-cache-miss is set. Input key: ${primaryKey}`
-                );
+        const cacheGroups = getCacheGroups();
+        if (cacheGroups) {
+            for (const group of cacheGroups) {
+                group.key = await evaluateKey(group.key);
             }
-            core.info(
-                `Cache not found for input keys: ${[
-                    primaryKey,
-                    ...restoreKeys
-                ].join(", ")}`
+            await restoreCacheGroups(
+                backend,
+                cacheGroups,
+                stateProvider,
+                summaryEntries
             );
             return;
         }
 
-        // Store the matched cache key in states
-        stateProvider.setState(State.CacheMatchedKey, cacheKey);
-
-        const isExactKeyMatch = utils.isExactKeyMatch(
-            core.getInput(Inputs.Key, { required: true }),
-            cacheKey
+        return await restoreCacheGroup(
+            backend,
+            {
+                id: "",
+                key: await evaluateKey(
+                    core.getInput(Inputs.Key, { required: true })
+                ),
+                restoreKeys: utils.getInputAsArray(Inputs.RestoreKeys),
+                paths: utils.getInputAsArray(Inputs.Path, {
+                    required: true
+                })
+            },
+            stateProvider,
+            summaryEntries
         );
-
-        core.setOutput(Outputs.CacheHit, isExactKeyMatch.toString());
-        if (lookupOnly) {
-            core.info(`Cache found and can be restored from key: ${cacheKey}`);
-        } else {
-            core.info(`Cache restored from key: ${cacheKey}`);
-        }
-        return cacheKey;
     } catch (error: unknown) {
         core.setFailed((error as Error).message);
-        if (earlyExit) {
-            process.exit(1);
-        }
+        failed = true;
+        logEvent({
+            type: CacheEventType.Error,
+            message: (error as Error).message
+        });
+    } finally {
+        stopTimeout?.();
+        await writeJobSummary("Cache restore", summaryEntries);
+    }
+
+    if (failed && earlyExit) {
+        process.exit(1);
     }
 }
 
@@ -101,9 +627,10 @@ async function run(
     // which is a possibility if HTTP requests are dangling
     // due to retries or timeouts. We know that if we got here
     // that all promises that we care about have successfully
-    // resolved, so simply exit with success.
+    // resolved, so simply exit, with the exit code of
+    // core.setFailed if the step failed.
     if (earlyExit) {
-        process.exit(0);
+        process.exit();
     }
 }
 
@@ -1,121 +1,766 @@
-import * as cache from "@actions/cache";
+import { ReserveCacheError, ValidationError } from "@actions/cache";
+import { UploadOptions } from "@actions/cache/lib/options";
 import * as core from "@actions/core";
 
-import { Events, Inputs, State } from "./constants";
+import { ICacheBackend } from "./backends/backend";
+import { getCacheBackend } from "./backends/backendFactory";
+import {
+    Events,
+    Inputs,
+    Outputs,
+    RefKey,
+    SaveOn,
+    SaveOnAnyStatusKey,
+    State
+} from "./constants";
 import {
     IStateProvider,
     NullStateProvider,
     StateProvider
 } from "./stateProvider";
 import * as utils from "./utils/actionUtils";
+import {
+    CacheGroup,
+    getCacheGroups,
+    getGroupOutputName
+} from "./utils/cacheGroups";
+import { CacheEventType, logEvent } from "./utils/eventLog";
+import {
+    CacheSummaryEntry,
+    describeCacheEntry,
+    writeJobSummary
+} from "./utils/jobSummary";
+import { evaluateKey, isKeyTemplate } from "./utils/keyTemplate";
+import {
+    applyExclusions,
+    buildManifest,
+    computeManifestDigest,
+    getArchivePaths,
+    getLargestDirectories,
+    getManifestMode,
+    ManifestMode,
+    removeChecksumManifest,
+    writeChecksumManifest
+} from "./utils/manifest";
+import { matchesRefPatterns } from "./utils/refPattern";
+import { getAttemptCount, getRetryPolicy, SaveOperation } from "./utils/retry";
+import { getTimeout, startTimeout, untilTimeout } from "./utils/timeout";
+import { formatSize, parseSize } from "./utils/units";
 
 // Catch and log any unhandled exceptions.  These exceptions can leak out of the uploadChunk method in
 // @actions/toolkit when a failed upload closes the file descriptor causing any in-process reads to
 // throw an uncaught exception.  Instead of failing this action, just warn.
 process.on("uncaughtException", e => utils.logWarning(e.message));
 
-export async function saveImpl(
-    stateProvider: IStateProvider
+// Why a save failed, as reported with `fail-on-save-error`
+enum SaveErrorCategory {
+    ReserveConflict = "reserve conflict",
+    Validation = "validation",
+    Upload = "upload",
+    Refresh = "refresh",
+    Unexpected = "unexpected"
+}
+
+function categorizeSaveError(
+    error: Error,
+    fallback = SaveErrorCategory.Unexpected
+): SaveErrorCategory {
+    switch (error.name) {
+        case ReserveCacheError.name:
+            return SaveErrorCategory.ReserveConflict;
+        case ValidationError.name:
+            return SaveErrorCategory.Validation;
+        default:
+            return fallback;
+    }
+}
+
+// A failed save fails the step with its category when `fail-on-save-error` is set, or when `fail`
+// is set by a more specific input, and is otherwise only a warning.
+function reportSaveError(
+    category: SaveErrorCategory,
+    message: string,
+    fail = false
+): void {
+    if (utils.getInputAsBool(Inputs.FailOnSaveError)) {
+        core.setFailed(`Cache save failed (${category} error): ${message}`);
+    } else if (fail) {
+        core.setFailed(message);
+    } else {
+        utils.logWarning(message);
+    }
+}
+
+// Saves the entry described by `group`, or by the step inputs when no group is given.
+async function saveCacheEntry(
+    backend: ICacheBackend,
+    stateProvider: IStateProvider,
+    summaryEntries: CacheSummaryEntry[],
+    checkJobStatus: () => Promise<string | undefined>,
+    group?: CacheGroup
 ): Promise<number | void> {
-    let cacheId = -1;
-    try {
-        if (!utils.isCacheFeatureAvailable()) {
-            return;
-        }
+    // Paths are only read once they are needed, so a missing key is reported first
+    const getCachePaths = (): string[] =>
+        group
+            ? group.paths
+            : utils.getInputAsArray(Inputs.Path, {
+                  required: true
+              });
 
-        if (!utils.isValidEvent()) {
-            utils.logWarning(
-                `Event Validation Error: The event type ${
-                    process.env[Events.Key]
-                } is not supported because it's not tied to a branch or tag ref.`
+    // If restore has stored a primary key in state, reuse that, unless a templated key
+    // should be recomputed to pick up changes made during the job.
+    // Else re-evaluate from inputs
+    const keyInput = group ? group.key : core.getInput(Inputs.Key);
+    const recomputeKey =
+        utils.getInputAsBool(Inputs.RecomputeKey) && isKeyTemplate(keyInput);
+    const primaryKey =
+        (!recomputeKey && stateProvider.getState(State.CachePrimaryKey)) ||
+        (await evaluateKey(keyInput));
+
+    if (!primaryKey) {
+        utils.logWarning(`Key is not specified.`);
+        return;
+    }
+
+    if (isKeyTemplate(keyInput)) {
+        core.setOutput(
+            getGroupOutputName(Outputs.CachePrimaryKey, group ? group.id : ""),
+            primaryKey
+        );
+    }
+
+    const refreshCache: boolean = utils.getInputAsBool(Inputs.RefreshCache, {
+        required: false
+    });
+    // A dry run goes through every check, but neither uploads nor deletes anything
+    const dryRun = utils.getInputAsBool(Inputs.DryRun);
+    const failOnSaveError = utils.getInputAsBool(Inputs.FailOnSaveError);
+    const attemptsBefore = getAttemptCount(SaveOperation);
+
+    // If matched restore key is same as primary key, either try to refresh the cache, or just notify and do not save.
+
+    let restoredKey = stateProvider.getCacheState();
+    // Every outcome is recorded in the job summary and the event log
+    const addSummaryEntry = (
+        type: CacheEventType,
+        outcome: string,
+        entry?: Partial<CacheSummaryEntry>
+    ): void => {
+        const summaryEntry = {
+            groupId: group ? group.id : "",
+            primaryKey,
+            matchedKey: restoredKey,
+            outcome,
+            ...entry
+        };
+        summaryEntries.push(summaryEntry);
+        logEvent({
+            type,
+            groupId: summaryEntry.groupId,
+            key: primaryKey,
+            matchedKey: restoredKey,
+            outcome,
+            sizeInBytes: summaryEntry.sizeInBytes,
+            durationInMs: summaryEntry.durationInMs
+        });
+        if (dryRun) {
+            core.setOutput(
+                getGroupOutputName(Outputs.DryRunPlan, group ? group.id : ""),
+                outcome
             );
-            return;
         }
+        if (getRetryPolicy().retries > 0) {
+            core.setOutput(
+                getGroupOutputName(Outputs.SaveAttempts, group ? group.id : ""),
+                (getAttemptCount(SaveOperation) - attemptsBefore).toString()
+            );
+        }
+    };
+
+    // A save that outlasts the `timeout` of the step is abandoned, and reported as skipped
+    const abandon = (operation: string, timeout: number): undefined => {
+        utils.logWarning(
+            `Cache save timed out after ${
+                timeout / 1000
+            } s, abandoned ${operation} the cache with key ${primaryKey}. The cache is not saved.`
+        );
+        addSummaryEntry(CacheEventType.Skip, "Skipped, timed out");
+        return undefined;
+    };
 
-        // If restore has stored a primary key in state, reuse that
-        // Else re-evaluate from inputs
-        const primaryKey =
-            stateProvider.getState(State.CachePrimaryKey) ||
-            core.getInput(Inputs.Key);
+    if (refreshCache && !restoredKey) {
+        // If getCacheState didn't give us a key, we're likely using granular actions. Do a lookup to see if we need to refresh or just do a regular save.
+        const cachePaths = getCachePaths();
+        const enableCrossOsArchive = utils.getInputAsBool(
+            Inputs.EnableCrossOsArchive
+        );
+        restoredKey = await backend.lookup(
+            getArchivePaths(cachePaths, group ? group.id : ""),
+            primaryKey,
+            [],
+            enableCrossOsArchive
+        );
+    }
 
-        if (!primaryKey) {
-            utils.logWarning(`Key is not specified.`);
+    const manifestMode = getManifestMode();
+    if (
+        manifestMode !== ManifestMode.Off &&
+        restoredKey &&
+        (refreshCache || !utils.isExactKeyMatch(primaryKey, restoredKey))
+    ) {
+        const restoredManifest = stateProvider.getState(State.CacheManifest);
+        const cachePaths = getCachePaths();
+        if (
+            restoredManifest &&
+            restoredManifest ===
+                (await computeManifestDigest(cachePaths, manifestMode))
+        ) {
+            core.info(
+                `Cache contents are unchanged since they were restored from key ${restoredKey}, not saving cache.`
+            );
+            core.setOutput(
+                getGroupOutputName(
+                    Outputs.CacheUnchanged,
+                    group ? group.id : ""
+                ),
+                "true"
+            );
+            addSummaryEntry(CacheEventType.Skip, "Skipped, contents unchanged");
             return;
         }
+    }
 
-        const refreshCache: boolean = utils.getInputAsBool(
-            Inputs.RefreshCache,
-            { required: false }
-        );
+    const enableCrossOsArchive = utils.getInputAsBool(
+        Inputs.EnableCrossOsArchive
+    );
+    const uploadOptions = {
+        uploadChunkSize: utils.getInputAsInt(Inputs.UploadChunkSize)
+    };
 
-        // If matched restore key is same as primary key, either try to refresh the cache, or just notify and do not save.
+    // Contents larger than `max-size`, or saved with the wrong job status, are not saved, whether
+    // as a new entry or a refresh
+    if (
+        !utils.isExactKeyMatch(primaryKey, restoredKey) ||
+        (refreshCache && backend.canDelete())
+    ) {
+        const sizeError = await checkMaxSize(getCachePaths());
+        if (sizeError) {
+            addSummaryEntry(CacheEventType.Skip, "Skipped, too large");
+            if (utils.getInputAsBool(Inputs.FailOnMaxSize)) {
+                core.setFailed(sizeError);
+                return -1;
+            }
+            utils.logWarning(sizeError);
+            return;
+        }
 
-        let restoredKey = stateProvider.getCacheState();
+        const jobStatusReason = await checkJobStatus();
+        if (jobStatusReason) {
+            core.info(jobStatusReason);
+            addSummaryEntry(CacheEventType.Skip, "Skipped, job status");
+            return;
+        }
 
-        if (refreshCache && !restoredKey) {
-            // If getCacheState didn't give us a key, we're likely using granular actions. Do a lookup to see if we need to refresh or just do a regular save.
-            const cachePaths = utils.getInputAsArray(Inputs.Path, {
-                required: true
-            });
-            const enableCrossOsArchive = utils.getInputAsBool(
-                Inputs.EnableCrossOsArchive
-            );
-            restoredKey = await cache.restoreCache(
-                cachePaths,
-                primaryKey,
-                [],
-                { lookupOnly: true },
-                enableCrossOsArchive
+        if (stateProvider.getState(State.RestoreTimedOut) === "true") {
+            core.info(
+                "Not saving cache, the restore of the cache timed out and may have left the files partly restored."
             );
+            addSummaryEntry(CacheEventType.Skip, "Skipped, restore timed out");
+            return;
         }
-        if (utils.isExactKeyMatch(primaryKey, restoredKey)) {
-            /* istanbul ignore next */
-            const { GITHUB_TOKEN, GITHUB_REPOSITORY } = process.env || null;
-            if (GITHUB_TOKEN && GITHUB_REPOSITORY && refreshCache === true) {
+    }
+
+    if (utils.isExactKeyMatch(primaryKey, restoredKey)) {
+        // A refresh that cannot be performed fails the step when requested, instead of a warning
+        const failOnRefreshError = utils.getInputAsBool(
+            Inputs.FailOnRefreshError
+        );
+        if (refreshCache === true && backend.canDelete()) {
+            if (dryRun) {
+                const { count, size } = await measureCachePaths(
+                    getCachePaths()
+                );
                 core.info(
-                    `Cache hit occurred on the primary key ${primaryKey}, attempting to refresh the contents of the cache.`
+                    `Dry run: would refresh the cache entry ${primaryKey} with ${count} files (${formatSize(
+                        size
+                    )}), saving them with the staging key ${getStagingKey(
+                        primaryKey
+                    )} and deleting the entry ${primaryKey} before saving them again.`
                 );
-                const [_owner, _repo] = GITHUB_REPOSITORY.split(`/`);
-                if (_owner && _repo) {
-                    await utils.deleteCacheByKey(primaryKey, _owner, _repo);
-                }
+                addSummaryEntry(CacheEventType.Skip, "Would refresh", {
+                    sizeInBytes: size
+                });
+                return;
+            }
+            core.info(
+                `Cache hit occurred on the primary key ${primaryKey}, attempting to refresh the contents of the cache.`
+            );
+            const startTime = Date.now();
+            const cacheId = await untilTimeout(
+                () =>
+                    withArchivePaths(
+                        getCachePaths(),
+                        group ? group.id : "",
+                        archivePaths =>
+                            refreshCacheEntry(
+                                backend,
+                                archivePaths,
+                                primaryKey,
+                                uploadOptions,
+                                enableCrossOsArchive,
+                                failOnRefreshError
+                            )
+                    ),
+                timeout => abandon("refreshing", timeout)
+            );
+            if (cacheId === undefined) {
+                return;
+            }
+            addSummaryEntry(
+                CacheEventType.Refresh,
+                cacheId === -1 ? "Refresh failed" : "Refreshed",
+                await getSavedEntrySummary(
+                    backend,
+                    getArchivePaths(getCachePaths(), group ? group.id : ""),
+                    primaryKey,
+                    startTime,
+                    enableCrossOsArchive
+                )
+            );
+            return cacheId;
+        } else {
+            if (refreshCache === true) {
+                addSummaryEntry(CacheEventType.Refresh, "Not refreshed");
+                reportSaveError(
+                    SaveErrorCategory.Refresh,
+                    `Can't refresh cache, either the repository info or a valid token are missing.`,
+                    failOnRefreshError
+                );
+                return failOnRefreshError || failOnSaveError ? -1 : undefined;
             } else {
-                if (refreshCache === true) {
-                    utils.logWarning(
-                        `Can't refresh cache, either the repository info or a valid token are missing.`
-                    );
-                    return;
-                } else {
-                    core.info(
-                        `Cache hit occurred on the primary key ${primaryKey}, not saving cache.`
-                    );
-                    return;
-                }
+                core.info(
+                    `Cache hit occurred on the primary key ${primaryKey}, not saving cache.`
+                );
+                addSummaryEntry(CacheEventType.Skip, "Skipped, exact hit");
+                return;
             }
         }
+    }
 
-        const cachePaths = utils.getInputAsArray(Inputs.Path, {
-            required: true
+    if (dryRun) {
+        const { count, size } = await measureCachePaths(getCachePaths());
+        core.info(
+            `Dry run: would save ${count} files (${formatSize(
+                size
+            )}) with key: ${primaryKey}`
+        );
+        addSummaryEntry(CacheEventType.Skip, "Would save", {
+            sizeInBytes: size
         });
+        return;
+    }
 
-        const enableCrossOsArchive = utils.getInputAsBool(
-            Inputs.EnableCrossOsArchive
+    const startTime = Date.now();
+    // Another job, e.g. of the same matrix, saved or is saving an entry with the same key. The
+    // entry is stored either way, so a conflict never fails the step.
+    const skipConflict = (message: string): undefined => {
+        core.info(
+            `Cache not saved (${SaveErrorCategory.ReserveConflict}): ${message}`
         );
+        addSummaryEntry(CacheEventType.Skip, "Skipped, saved by another job", {
+            durationInMs: Date.now() - startTime
+        });
+        return undefined;
+    };
 
-        cacheId = await cache.saveCache(
-            cachePaths,
+    let cacheId: number | undefined;
+    try {
+        cacheId = await untilTimeout(
+            () =>
+                withArchivePaths(
+                    getCachePaths(),
+                    group ? group.id : "",
+                    archivePaths =>
+                        backend.save(
+                            archivePaths,
+                            primaryKey,
+                            uploadOptions,
+                            enableCrossOsArchive
+                        )
+                ),
+            timeout => abandon("saving", timeout)
+        );
+    } catch (error: unknown) {
+        // Without `fail-on-save-error`, the error is reported as a warning by the caller
+        if (!failOnSaveError) {
+            throw error;
+        }
+        if ((error as Error).name === ReserveCacheError.name) {
+            return skipConflict((error as Error).message);
+        }
+        reportSaveError(
+            categorizeSaveError(error as Error, SaveErrorCategory.Upload),
+            (error as Error).message
+        );
+        addSummaryEntry(CacheEventType.Save, "Not saved", {
+            durationInMs: Date.now() - startTime
+        });
+        return -1;
+    }
+    if (cacheId === undefined) {
+        return;
+    }
+
+    if (cacheId != -1) {
+        core.info(`Cache saved with key: ${primaryKey}`);
+        addSummaryEntry(
+            CacheEventType.Save,
+            "Saved",
+            await getSavedEntrySummary(
+                backend,
+                getArchivePaths(getCachePaths(), group ? group.id : ""),
+                primaryKey,
+                startTime,
+                enableCrossOsArchive
+            )
+        );
+    } else {
+        // @actions/cache only logs why it did not store the entry, which for a reserve conflict
+        // means the key exists. An entry the other job is still uploading is not found yet.
+        const existingKey = await backend.lookup(
+            getArchivePaths(getCachePaths(), group ? group.id : ""),
             primaryKey,
-            { uploadChunkSize: utils.getInputAsInt(Inputs.UploadChunkSize) },
+            [],
             enableCrossOsArchive
         );
+        if (utils.isExactKeyMatch(primaryKey, existingKey)) {
+            return skipConflict(
+                `An entry with key ${primaryKey} was saved by another job.`
+            );
+        }
+        if (failOnSaveError) {
+            reportSaveError(
+                SaveErrorCategory.Upload,
+                `The ${backend.type} backend did not store the entry with key ${primaryKey}.`
+            );
+        }
+        addSummaryEntry(CacheEventType.Save, "Not saved", {
+            durationInMs: Date.now() - startTime
+        });
+    }
+    return cacheId;
+}
+
+// Measures the files to save against `max-size` before they are archived, and returns why they
+// cannot be saved when they are larger.
+async function checkMaxSize(cachePaths: string[]): Promise<string | undefined> {
+    const maxSizeInput = core.getInput(Inputs.MaxSize);
+    if (!maxSizeInput) {
+        return undefined;
+    }
+    const maxSize = parseSize(Inputs.MaxSize, maxSizeInput);
+    const entries = await buildManifest(
+        applyExclusions(cachePaths),
+        ManifestMode.Metadata
+    );
+    const size = entries.reduce((total, entry) => total + entry.size, 0);
+    core.debug(`Cache contents: ${formatSize(size)}`);
+    if (size <= maxSize) {
+        return undefined;
+    }
+
+    const largestDirectories = getLargestDirectories(entries, 5)
+        .map(directory => `${directory.path} ${formatSize(directory.size)}`)
+        .join(", ");
+    return `Cache not saved, its contents are ${formatSize(
+        size
+    )}, more than the max-size of ${formatSize(
+        maxSize
+    )}. The largest directories are: ${largestDirectories}`;
+}
+
+// Counts the files to save and their size, before they are archived
+async function measureCachePaths(
+    cachePaths: string[]
+): Promise<{ count: number; size: number }> {
+    const entries = await buildManifest(
+        applyExclusions(cachePaths),
+        ManifestMode.Metadata
+    );
+    return {
+        count: entries.length,
+        size: entries.reduce((total, entry) => total + entry.size, 0)
+    };
+}
+
+// Saves the cache paths without exclusions. With `checksums`, a checksum manifest of the cached
+// files is archived along with them.
+async function withArchivePaths<T>(
+    cachePaths: string[],
+    groupId: string,
+    save: (archivePaths: string[]) => Promise<T>
+): Promise<T> {
+    const archivePaths = getArchivePaths(cachePaths, groupId);
+    if (!utils.getInputAsBool(Inputs.Checksums)) {
+        return save(archivePaths);
+    }
+    await writeChecksumManifest(applyExclusions(cachePaths), groupId);
+    try {
+        return await save(archivePaths);
+    } finally {
+        removeChecksumManifest(groupId);
+    }
+}
+
+async function getSavedEntrySummary(
+    backend: ICacheBackend,
+    archivePaths: string[],
+    key: string,
+    startTime: number,
+    enableCrossOsArchive: boolean
+): Promise<Partial<CacheSummaryEntry>> {
+    const durationInMs = Date.now() - startTime;
+    const entry = await describeCacheEntry(
+        backend,
+        archivePaths,
+        key,
+        enableCrossOsArchive
+    );
+    return { sizeInBytes: entry?.sizeInBytes, durationInMs };
+}
+
+// Staging keys extend the primary key, so while a refresh is in progress restoring the primary
+// key still finds the staged contents by prefix.
+function getStagingKey(primaryKey: string): string {
+    const runId = process.env["GITHUB_RUN_ID"] || Date.now();
+    const runAttempt = process.env["GITHUB_RUN_ATTEMPT"] || "1";
+    return `${primaryKey}-refresh-${runId}-${runAttempt}`;
+}
+
+// Replaces the entry for `primaryKey` without ever leaving the key empty: the new contents are
+// saved under a staging key first, and the old entry is only deleted once they are stored. The
+// contents are then saved again under the primary key, and the staging entry removed.
+async function refreshCacheEntry(
+    backend: ICacheBackend,
+    cachePaths: string[],
+    primaryKey: string,
+    uploadOptions: UploadOptions,
+    enableCrossOsArchive: boolean,
+    failOnRefreshError: boolean
+): Promise<number> {
+    const reportError = (message: string): number => {
+        reportSaveError(SaveErrorCategory.Refresh, message, failOnRefreshError);
+        return -1;
+    };
+
+    const stagingKey = getStagingKey(primaryKey);
+    const stagingId = await backend.save(
+        cachePaths,
+        stagingKey,
+        uploadOptions,
+        enableCrossOsArchive
+    );
+    const stagedKey =
+        stagingId !== -1
+            ? await backend.lookup(
+                  cachePaths,
+                  stagingKey,
+                  [],
+                  enableCrossOsArchive
+              )
+            : undefined;
+    if (stagedKey !== stagingKey) {
+        return reportError(
+            `Failed to refresh cache, the new contents could not be saved with the staging key ${stagingKey}. The entry with key ${primaryKey} was kept.`
+        );
+    }
+    core.info(`Cache staged with key: ${stagingKey}`);
+
+    if (!(await backend.delete(primaryKey))) {
+        await backend.delete(stagingKey);
+        return reportError(
+            `Failed to refresh cache, the entry with key ${primaryKey} could not be deleted.`
+        );
+    }
+
+    const cacheId = await backend.save(
+        cachePaths,
+        primaryKey,
+        uploadOptions,
+        enableCrossOsArchive
+    );
+    if (cacheId === -1) {
+        return reportError(
+            `Failed to refresh cache, the new contents could not be saved with the key ${primaryKey}. They are still restored from the staging key ${stagingKey}.`
+        );
+    }
+    await backend.delete(stagingKey);
+    core.info(`Cache saved with key: ${primaryKey}`);
+    return cacheId;
+}
+
+// Returns why the cache is not saved on the current ref, if `save-on-refs` or `skip-save-on-refs`
+// exclude it, e.g. to only save on the default branch while every branch restores from it.
+function getSkippedRefReason(): string | undefined {
+    const ref = process.env[RefKey] ?? "";
+    const saveOnRefs = utils.getInputAsArray(Inputs.SaveOnRefs);
+    if (saveOnRefs.length > 0 && !matchesRefPatterns(ref, saveOnRefs)) {
+        return `Not saving cache, the ref ${ref} does not match ${Inputs.SaveOnRefs}.`;
+    }
+    const skipSaveOnRefs = utils.getInputAsArray(Inputs.SkipSaveOnRefs);
+    if (matchesRefPatterns(ref, skipSaveOnRefs)) {
+        return `Not saving cache, the ref ${ref} matches ${Inputs.SkipSaveOnRefs}.`;
+    }
+    return undefined;
+}
+
+// Returns why the cache is not saved with the current job status, if the main step of the cache
+// action requested saving only on some statuses.
+async function getSkippedJobStatusReason(
+    saveOn: string
+): Promise<string | undefined> {
+    // The main step only stores valid values, anything else is treated as unset
+    if (
+        !Object.values(SaveOn).includes(saveOn as SaveOn) ||
+        saveOn === SaveOn.Always
+    ) {
+        return undefined;
+    }
+    // The post step only runs for a failed job when a cache step of the job saves on failure
+    if (
+        saveOn === SaveOn.Success &&
+        process.env[SaveOnAnyStatusKey] !== "true"
+    ) {
+        return undefined;
+    }
+    const jobStatus = await utils.getJobStatus(
+        core.getInput(Inputs.Token) || process.env["GITHUB_TOKEN"]
+    );
+    if (jobStatus === undefined) {
+        // The post step runs whatever the job status is, so it cannot assume the job succeeded or
+        // failed
+        utils.logWarning(
+            `The job status could not be looked up, which needs a ${Inputs.Token} with the actions: read permission. Set ${Inputs.SaveOn} to ${SaveOn.Always} to save the cache whatever the job status is.`
+        );
+        return `Not saving cache, the job status could not be looked up and ${Inputs.SaveOn} is ${saveOn}.`;
+    }
+    if (jobStatus !== (saveOn as string)) {
+        return `Not saving cache, the job status is ${jobStatus} and ${Inputs.SaveOn} is ${saveOn}.`;
+    }
+    return undefined;
+}
+
+// Every group is saved independently; a failed group is reported without skipping the rest.
+async function saveCacheGroups(
+    backend: ICacheBackend,
+    cacheGroups: CacheGroup[],
+    stateProvider: IStateProvider,
+    summaryEntries: CacheSummaryEntry[],
+    checkJobStatus: () => Promise<string | undefined>
+): Promise<number | void> {
+    let cacheId: number | void = undefined;
+    let failed = false;
+    for (const group of cacheGroups) {
+        core.info(`Saving cache group ${group.id}`);
+        try {
+            const groupCacheId = await saveCacheEntry(
+                backend,
+                stateProvider.forGroup(group.id),
+                summaryEntries,
+                checkJobStatus,
+                group
+            );
+            if (groupCacheId === -1) {
+                failed = true;
+            } else if (groupCacheId !== undefined) {
+                cacheId = groupCacheId;
+            }
+        } catch (error: unknown) {
+            failed = true;
+            reportSaveError(
+                categorizeSaveError(error as Error),
+                `[${group.id}] ${(error as Error).message}`
+            );
+            logEvent({
+                type: CacheEventType.Error,
+                groupId: group.id,
+                message: (error as Error).message
+            });
+        }
+    }
+    return failed ? -1 : cacheId;
+}
 
-        if (cacheId != -1) {
-            core.info(`Cache saved with key: ${primaryKey}`);
+export async function saveImpl(
+    stateProvider: IStateProvider
+): Promise<number | void> {
+    const summaryEntries: CacheSummaryEntry[] = [];
+    let stopTimeout: (() => void) | undefined;
+    try {
+        const timeout = getTimeout();
+        if (timeout !== undefined) {
+            stopTimeout = startTimeout(timeout);
+        }
+
+        const backend = getCacheBackend();
+        if (!backend.isAvailable()) {
+            return;
         }
+
+        if (!utils.isValidEvent()) {
+            utils.logWarning(
+                `Event Validation Error: The event type ${
+                    process.env[Events.Key]
+                } is not supported because it's not tied to a branch or tag ref.`
+            );
+            return;
+        }
+
+        const skippedRefReason = getSkippedRefReason();
+        if (skippedRefReason) {
+            core.info(skippedRefReason);
+            logEvent({ type: CacheEventType.Skip, message: skippedRefReason });
+            return;
+        }
+
+        // The job status is only looked up once something is about to be saved
+        let jobStatusReason: Promise<string | undefined> | undefined;
+        const checkJobStatus = (): Promise<string | undefined> =>
+            (jobStatusReason ??= getSkippedJobStatusReason(
+                stateProvider.getState(State.SaveOn)
+            ));
+
+        const cacheGroups = getCacheGroups();
+        if (cacheGroups) {
+            return await saveCacheGroups(
+                backend,
+                cacheGroups,
+                stateProvider,
+                summaryEntries,
+                checkJobStatus
+            );
+        }
+
+        return await saveCacheEntry(
+            backend,
+            stateProvider,
+            summaryEntries,
+            checkJobStatus
+        );
     } catch (error: unknown) {
-        utils.logWarning((error as Error).message);
+        reportSaveError(
+            categorizeSaveError(error as Error),
+            (error as Error).message
+        );
+        logEvent({
+            type: CacheEventType.Error,
+            message: (error as Error).message
+        });
+    } finally {
+        stopTimeout?.();
+        await writeJobSummary("Cache save", summaryEntries);
     }
-    return cacheId;
+    return -1;
 }
 
 export async function saveOnlyRun(
@@ -124,7 +769,7 @@ export async function saveOnlyRun(
     try {
         const cacheId = await saveImpl(new NullStateProvider());
         if (cacheId === -1) {
-            core.warning(`Cache save failed.`);
+            utils.logWarning(`Cache save failed.`);
         }
     } catch (err) {
         console.error(err);
@@ -137,9 +782,10 @@ export async function saveOnlyRun(
     // which is a possibility if HTTP requests are dangling
     // due to retries or timeouts. We know that if we got here
     // that all promises that we care about have successfully
-    // resolved, so simply exit with success.
+    // resolved, so simply exit, with the exit code of
+    // core.setFailed if the step failed.
     if (earlyExit) {
-        process.exit(0);
+        process.exit();
     }
 }
 
@@ -157,8 +803,9 @@ export async function saveRun(earlyExit?: boolean | undefined): Promise<void> {
     // which is a possibility if HTTP requests are dangling
     // due to retries or timeouts. We know that if we got here
     // that all promises that we care about have successfully
-    // resolved, so simply exit with success.
+    // resolved, so simply exit, with the exit code of
+    // core.setFailed if the step failed.
     if (earlyExit) {
-        process.exit(0);
+        process.exit();
     }
 }
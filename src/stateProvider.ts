@@ -1,15 +1,21 @@
 import * as core from "@actions/core";
 
 import { Outputs, State } from "./constants";
+import { getGroupOutputName } from "./utils/cacheGroups";
 
 export interface IStateProvider {
     setState(key: string, value: string): void;
     getState(key: string): string;
 
     getCacheState(): string | undefined;
+
+    // Returns a provider whose state is kept apart from other cache groups
+    forGroup(groupId: string): IStateProvider;
 }
 
 class StateProviderBase implements IStateProvider {
+    constructor(protected readonly groupId = "") {}
+
     getCacheState(): string | undefined {
         const cacheKey = this.getState(State.CacheMatchedKey);
         if (cacheKey) {
@@ -20,6 +26,15 @@ class StateProviderBase implements IStateProvider {
         return undefined;
     }
 
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    forGroup(groupId: string): IStateProvider {
+        return this;
+    }
+
+    protected getStateName(key: string): string {
+        return this.groupId ? `${key}_${this.groupId}` : key;
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-unused-vars, @typescript-eslint/no-empty-function
     setState = (key: string, value: string) => {};
 
@@ -28,8 +43,13 @@ class StateProviderBase implements IStateProvider {
 }
 
 export class StateProvider extends StateProviderBase {
-    setState = core.saveState;
-    getState = core.getState;
+    setState = (key: string, value: string) =>
+        core.saveState(this.getStateName(key), value);
+    getState = (key: string) => core.getState(this.getStateName(key));
+
+    forGroup(groupId: string): IStateProvider {
+        return new StateProvider(groupId);
+    }
 }
 
 export class NullStateProvider extends StateProviderBase {
@@ -39,8 +59,15 @@ export class NullStateProvider extends StateProviderBase {
     ]);
 
     setState = (key: string, value: string) => {
-        core.setOutput(this.stateToOutputMap.get(key) as string, value);
+        const output = this.stateToOutputMap.get(key);
+        if (output) {
+            core.setOutput(getGroupOutputName(output, this.groupId), value);
+        }
     };
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     getState = (key: string) => "";
+
+    forGroup(groupId: string): IStateProvider {
+        return new NullStateProvider(groupId);
+    }
 }
@@ -0,0 +1,58 @@
+// The declarations of @actions/cache/lib/internal/cacheHttpClient import a contracts.d.ts that is
+// not published, so they are declared here instead, for the exact version in package.json. An
+// upgrade of @actions/cache has to check them against its sources.
+declare module "@actions/cache/lib/internal/cacheHttpClient" {
+    import { CompressionMethod } from "@actions/cache/lib/internal/constants";
+    import { DownloadOptions, UploadOptions } from "@actions/cache/lib/options";
+    import { IncomingHttpHeaders } from "http";
+
+    export interface ITypedResponseWithError<T> {
+        statusCode: number;
+        result: T | null;
+        headers: IncomingHttpHeaders;
+        error?: Error & { statusCode: number };
+    }
+
+    export interface ArtifactCacheEntry {
+        cacheKey?: string;
+        scope?: string;
+        cacheVersion?: string;
+        creationTime?: string;
+        archiveLocation?: string;
+    }
+
+    export interface InternalCacheOptions {
+        compressionMethod?: CompressionMethod;
+        enableCrossOsArchive?: boolean;
+        cacheSize?: number;
+    }
+
+    export interface ReserveCacheResponse {
+        cacheId: number;
+    }
+
+    export function getCacheEntry(
+        keys: string[],
+        paths: string[],
+        options?: InternalCacheOptions
+    ): Promise<ArtifactCacheEntry | null>;
+
+    export function downloadCache(
+        archiveLocation: string,
+        archivePath: string,
+        options?: DownloadOptions
+    ): Promise<void>;
+
+    export function reserveCache(
+        key: string,
+        paths: string[],
+        options?: InternalCacheOptions
+    ): Promise<ITypedResponseWithError<ReserveCacheResponse>>;
+
+    export function saveCache(
+        cacheId: number,
+        archivePath: string,
+        signedUploadURL?: string,
+        options?: UploadOptions
+    ): Promise<void>;
+}
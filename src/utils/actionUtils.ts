@@ -1,9 +1,16 @@
 import * as cache from "@actions/cache";
 import * as core from "@actions/core";
-import { Octokit } from "@octokit/action";
+import { Octokit, RestEndpointMethodTypes } from "@octokit/action";
 import { RequestError } from "@octokit/request-error";
+import * as fs from "fs";
 
-import { RefKey } from "../constants";
+import { EventPathKey, Events, RefKey } from "../constants";
+import { CacheEventType, logEvent } from "./eventLog";
+import * as logging from "./logging";
+import { withRetries } from "./retry";
+
+export type ActionsCacheEntry =
+    RestEndpointMethodTypes["actions"]["getActionsCacheList"]["response"]["data"]["actions_caches"][number];
 
 export function isGhes(): boolean {
     const ghUrl = new URL(
@@ -27,84 +34,235 @@ export function isExactKeyMatch(key: string, cacheKey?: string): boolean {
     );
 }
 
+// Reported as set by the `warning-level` input
 export function logWarning(message: string): void {
-    const warningPrefix = "[warning]";
-    core.info(`${warningPrefix}${message}`);
+    logging.logWarning(message);
+}
+
+// An explicit token takes precedence over the GITHUB_TOKEN environment variable, which is
+// otherwise used by @octokit/action.
+function getOctokit(token?: string): Octokit {
+    return token
+        ? new Octokit({ authStrategy: undefined, auth: token })
+        : new Octokit();
 }
 
 export async function deleteCacheByKey(
     key: string,
     owner: string,
-    repo: string
+    repo: string,
+    token?: string
 ): Promise<number | void> {
-    const octokit = new Octokit();
+    const octokit = getOctokit(token);
+    const startTime = Date.now();
     let response;
     try {
         const gitRef = process.env[RefKey];
-        const cacheEntry = await octokit.rest.actions.getActionsCacheList({
-            owner: owner,
-            repo: repo,
-            key: key,
-            ref: gitRef
-        });
+        const cacheEntry = await withRetries("Listing cache entries", () =>
+            octokit.rest.actions.getActionsCacheList({
+                owner: owner,
+                repo: repo,
+                key: key,
+                ref: gitRef,
+                per_page: 100
+            })
+        );
         const {
-            data: { total_count, actions_caches }
+            data: { actions_caches }
         } = cacheEntry;
-        if (total_count !== 1 || total_count !== actions_caches.length) {
+        // The API matches the key as a prefix, entries with longer keys must be left alone
+        const matches = actions_caches.filter(entry => entry.key === key);
+        if (matches.length !== 1) {
             // leave all find logic to the actual cache implementation. We just want to make sure we're returned a single element so we don't accidentally delete an entry that belongs to a different gitref.
-            if (total_count > 1) {
+            if (matches.length > 1) {
                 exports.logWarning(
                     `More than one cache entry found for key ${key}`
                 );
-            } else if (total_count === 0 || actions_caches.length === 0) {
+            } else {
                 exports.logWarning(
                     `No cache entries for key ${key} belong to gitref ${gitRef}.`
                 );
             }
-            // This situation is likely never actually going to come up.
-            // Istanbul is being dumb and I can't ignore this path.
-            else if (total_count !== actions_caches.length) {
-                exports.logWarning(
-                    `Reported cache entry matches for ${key} does not match length of 'actions_caches' array in API response.`
-                );
-            }
             core.info(`Skip trying to delete cache entry for key ${key}.`);
+            logEvent({
+                type: CacheEventType.Skip,
+                key,
+                message: `Not deleting cache entry, ${matches.length} entries found for key ${key} on ref ${gitRef}.`
+            });
             return;
         }
-        const id = actions_caches[0].id;
+        const id = matches[0].id;
         if (id) {
-            response = await octokit.rest.actions.deleteActionsCacheById({
-                owner: owner,
-                repo: repo,
-                cache_id: id
-            });
+            response = await withRetries("Deleting the cache entry", () =>
+                octokit.rest.actions.deleteActionsCacheById({
+                    owner: owner,
+                    repo: repo,
+                    cache_id: id
+                })
+            );
             if (response.status === 204) {
                 core.info(
                     `Succesfully deleted cache with key: ${key}, id: ${id}`
                 );
+                logEvent({
+                    type: CacheEventType.Delete,
+                    key,
+                    sizeInBytes: matches[0].size_in_bytes,
+                    durationInMs: Date.now() - startTime
+                });
                 return 204;
             }
         }
     } catch (e) {
-        if (e instanceof RequestError) {
-            const err = e as RequestError;
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const errMessage = (err.response?.data as any).message;
-            exports.logWarning(
-                `Github API reported error: ${err.name} '${err.status}: ${errMessage}'`
-            );
-        }
+        logRequestError(e);
         core.info(`Couldn't delete cache entry for key ${key}.`);
+        logEvent({
+            type: CacheEventType.Error,
+            key,
+            message: `Couldn't delete cache entry: ${(e as Error).message}`
+        });
         return;
     }
 }
 
+export async function deleteCacheById(
+    id: number,
+    owner: string,
+    repo: string,
+    token?: string
+): Promise<boolean> {
+    const octokit = getOctokit(token);
+    try {
+        const response = await withRetries("Deleting the cache entry", () =>
+            octokit.rest.actions.deleteActionsCacheById({
+                owner: owner,
+                repo: repo,
+                cache_id: id
+            })
+        );
+        return response.status === 204;
+    } catch (e) {
+        logRequestError(e);
+        core.info(`Couldn't delete cache entry with id ${id}.`);
+        return false;
+    }
+}
+
+function logRequestError(e: unknown): void {
+    if (e instanceof RequestError) {
+        const err = e as RequestError;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const errMessage = (err.response?.data as any)?.message;
+        exports.logWarning(
+            `Github API reported error: ${err.name} '${err.status}: ${errMessage}'`
+        );
+    }
+}
+
+export async function listCacheEntries(
+    owner: string,
+    repo: string,
+    filter: { key?: string; ref?: string } = {},
+    token?: string
+): Promise<ActionsCacheEntry[]> {
+    const octokit = getOctokit(token);
+    return await withRetries("Listing cache entries", () =>
+        octokit.paginate("GET /repos/{owner}/{repo}/actions/caches", {
+            owner: owner,
+            repo: repo,
+            key: filter.key,
+            ref: filter.ref,
+            per_page: 100
+        })
+    );
+}
+
+export enum JobStatus {
+    Success = "success",
+    Failure = "failure",
+    Cancelled = "cancelled"
+}
+
+// Steps cannot read the status of their job, so it is derived from the conclusions of the steps
+// that already ran, as reported by the API for the job in progress on this runner.
+export async function getJobStatus(
+    token?: string
+): Promise<JobStatus | undefined> {
+    const [owner, repo] = (process.env["GITHUB_REPOSITORY"] || "").split("/");
+    const runId = parseInt(process.env["GITHUB_RUN_ID"] || "");
+    const runnerName = process.env["RUNNER_NAME"];
+    if (!owner || !repo || isNaN(runId) || !runnerName) {
+        return undefined;
+    }
+
+    try {
+        const octokit = getOctokit(token);
+        const jobs = await withRetries("Looking up the job status", () =>
+            octokit.paginate(
+                "GET /repos/{owner}/{repo}/actions/runs/{run_id}/attempts/{attempt_number}/jobs",
+                {
+                    owner: owner,
+                    repo: repo,
+                    run_id: runId,
+                    attempt_number: parseInt(
+                        process.env["GITHUB_RUN_ATTEMPT"] || "1"
+                    ),
+                    per_page: 100
+                }
+            )
+        );
+        const job = jobs.find(
+            job =>
+                job.status === "in_progress" && job.runner_name === runnerName
+        );
+        if (!job) {
+            return undefined;
+        }
+        const conclusions = (job.steps ?? []).map(step => step.conclusion);
+        if (conclusions.includes("failure")) {
+            return JobStatus.Failure;
+        }
+        if (conclusions.includes("cancelled")) {
+            return JobStatus.Cancelled;
+        }
+        return JobStatus.Success;
+    } catch (e) {
+        core.debug(`Failed to look up the job status: ${(e as Error).message}`);
+        return undefined;
+    }
+}
+
 // Cache token authorized for all events that are tied to a ref
 // See GitHub Context https://help.github.com/actions/automating-your-workflow-with-github-actions/contexts-and-expression-syntax-for-github-actions#github-context
 export function isValidEvent(): boolean {
     return RefKey in process.env && Boolean(process.env[RefKey]);
 }
 
+// Returns the number of the pull request if the workflow was triggered by closing it, in which
+// case GITHUB_REF is the merge ref for `pull_request`, but the base branch for `pull_request_target`.
+export function getClosedPullRequestNumber(): number | undefined {
+    const eventName = process.env[Events.Key];
+    const eventPath = process.env[EventPathKey];
+    if (
+        (eventName !== Events.PullRequest &&
+            eventName !== Events.PullRequestTarget) ||
+        !eventPath ||
+        !fs.existsSync(eventPath)
+    ) {
+        return undefined;
+    }
+    const payload = JSON.parse(fs.readFileSync(eventPath, "utf8"));
+    if (payload.action !== "closed") {
+        return undefined;
+    }
+    return payload.pull_request?.number ?? payload.number;
+}
+
+// Caches created by `pull_request` workflows are scoped to the merge ref of the pull request
+export function getPullRequestRef(pullRequestNumber: number): string {
+    return `refs/pull/${pullRequestNumber}/merge`;
+}
+
 export function getInputAsArray(
     name: string,
     options?: core.InputOptions
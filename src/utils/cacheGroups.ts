@@ -0,0 +1,89 @@
+import * as core from "@actions/core";
+
+import { Inputs } from "../constants";
+
+export interface CacheGroup {
+    id: string;
+    key: string;
+    paths: string[];
+    restoreKeys: string[];
+}
+
+interface CacheGroupInput {
+    id?: string;
+    key?: string;
+    path?: string | string[];
+    "restore-keys"?: string | string[];
+}
+
+function toList(value: string | string[] | undefined): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    return (Array.isArray(value) ? value : value.split("\n"))
+        .map(s => s.replace(/^!\s+/, "!").trim())
+        .filter(x => x !== "");
+}
+
+// Per-group outputs are suffixed with the group id, e.g. `cache-hit-npm`
+export function getGroupOutputName(name: string, groupId: string): string {
+    return groupId ? `${name}-${groupId}` : name;
+}
+
+export function getCacheGroups(): CacheGroup[] | undefined {
+    const input = core.getInput(Inputs.Caches);
+    if (!input) {
+        return undefined;
+    }
+
+    let entries: unknown;
+    try {
+        entries = JSON.parse(input);
+    } catch (error: unknown) {
+        throw new Error(
+            `Input Validation Error: ${
+                Inputs.Caches
+            } must be a JSON list of cache groups. ${(error as Error).message}`
+        );
+    }
+    if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error(
+            `Input Validation Error: ${Inputs.Caches} must be a non-empty JSON list of cache groups.`
+        );
+    }
+
+    const ids = new Set<string>();
+    return entries.map((entry: CacheGroupInput, index: number) => {
+        const id = entry.id ?? index.toString();
+        if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+            throw new Error(
+                `Input Validation Error: cache group id ${id} may only contain letters, digits, '-' and '_'.`
+            );
+        }
+        if (ids.has(id)) {
+            throw new Error(
+                `Input Validation Error: cache group id ${id} is used more than once.`
+            );
+        }
+        ids.add(id);
+
+        if (!entry.key) {
+            throw new Error(
+                `Input Validation Error: cache group ${id} does not specify a key.`
+            );
+        }
+        const paths = toList(entry.path);
+        if (paths.length === 0) {
+            throw new Error(
+                `Input Validation Error: cache group ${id} does not specify a path.`
+            );
+        }
+
+        return {
+            id,
+            key: entry.key,
+            paths,
+            restoreKeys: toList(entry["restore-keys"])
+        };
+    });
+}
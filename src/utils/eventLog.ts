@@ -0,0 +1,60 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+
+import { Inputs } from "../constants";
+
+export enum CacheEventType {
+    Lookup = "lookup",
+    Restore = "restore",
+    Save = "save",
+    Refresh = "refresh",
+    Delete = "delete",
+    Skip = "skip",
+    Error = "error"
+}
+
+export interface CacheEvent {
+    type: CacheEventType;
+    groupId?: string;
+    key?: string;
+    matchedKey?: string;
+    result?: string; // `exact`, `partial` or `miss`, for lookups and restores
+    outcome?: string; // As shown in the job summary
+    sizeInBytes?: number;
+    durationInMs?: number;
+    message?: string;
+}
+
+// Appends an event to the JSON lines file of the `event-log` input, if set, along with the run
+// it belongs to. Logging is best effort and never fails the step.
+export function logEvent(event: CacheEvent): void {
+    const eventLog = core.getInput(Inputs.EventLog);
+    if (!eventLog) {
+        return;
+    }
+
+    const line = JSON.stringify({
+        timestamp: new Date().toISOString(),
+        repository: process.env["GITHUB_REPOSITORY"],
+        workflow: process.env["GITHUB_WORKFLOW"],
+        job: process.env["GITHUB_JOB"],
+        runId: process.env["GITHUB_RUN_ID"],
+        runAttempt: process.env["GITHUB_RUN_ATTEMPT"],
+        ref: process.env["GITHUB_REF"],
+        ...event,
+        groupId: event.groupId || undefined
+    });
+    try {
+        fs.mkdirSync(path.dirname(path.resolve(eventLog)), {
+            recursive: true
+        });
+        fs.appendFileSync(eventLog, `${line}\n`);
+    } catch (error: unknown) {
+        core.debug(
+            `Failed to write to the event log ${eventLog}: ${
+                (error as Error).message
+            }`
+        );
+    }
+}
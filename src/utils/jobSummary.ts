@@ -0,0 +1,117 @@
+import * as core from "@actions/core";
+import { SUMMARY_ENV_VAR } from "@actions/core/lib/summary";
+
+import { BackendType, CacheEntry, ICacheBackend } from "../backends/backend";
+import { Inputs } from "../constants";
+import * as utils from "./actionUtils";
+import { formatSize } from "./units";
+
+export enum CacheMatch {
+    Exact = "exact",
+    Prefix = "prefix",
+    Miss = "miss"
+}
+
+// One row of the job summary, for a cache group or the single cache of a step
+export interface CacheSummaryEntry {
+    groupId: string;
+    primaryKey: string;
+    matchedKey?: string;
+    sizeInBytes?: number;
+    durationInMs?: number;
+    outcome: string;
+}
+
+export function getCacheMatch(
+    primaryKey: string,
+    matchedKey?: string
+): CacheMatch {
+    if (!matchedKey) {
+        return CacheMatch.Miss;
+    }
+    return utils.isExactKeyMatch(primaryKey, matchedKey)
+        ? CacheMatch.Exact
+        : CacheMatch.Prefix;
+}
+
+// Looks up the metadata of an entry, like its size, which the backends do not return when
+// restoring or saving. This is best effort, e.g. the Actions cache API needs a token. As that
+// lookup is a call to the cache list API, it is skipped for the github backend unless `required`.
+export async function describeCacheEntry(
+    backend: ICacheBackend,
+    paths: string[],
+    key: string,
+    enableCrossOsArchive?: boolean,
+    required = false
+): Promise<CacheEntry | undefined> {
+    if (backend.type === BackendType.GitHub && !required) {
+        return undefined;
+    }
+    try {
+        return await backend.describe(paths, key, enableCrossOsArchive);
+    } catch (error: unknown) {
+        core.debug(
+            `Failed to look up cache entry ${key}: ${(error as Error).message}`
+        );
+        return undefined;
+    }
+}
+
+function formatKey(key: string): string {
+    const escaped = key
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+    return `<code>${escaped}</code>`;
+}
+
+function formatDuration(durationInMs: number): string {
+    return `${(durationInMs / 1000).toFixed(1)} s`;
+}
+
+export async function writeJobSummary(
+    title: string,
+    entries: CacheSummaryEntry[]
+): Promise<void> {
+    // Enabled unless explicitly disabled, the input is not defined by every action
+    if (
+        core.getInput(Inputs.JobSummary).toLowerCase() === "false" ||
+        !process.env[SUMMARY_ENV_VAR] ||
+        entries.length === 0
+    ) {
+        return;
+    }
+
+    const showGroups = entries.some(entry => entry.groupId);
+    const header = [
+        ...(showGroups ? ["Cache"] : []),
+        "Primary key",
+        "Matched key",
+        "Match",
+        "Size",
+        "Time",
+        "Result"
+    ].map(data => ({ data, header: true }));
+    // Empty cells are not closed by core.summary, so unknown values are shown as `-`
+    const rows = entries.map(entry => [
+        ...(showGroups ? [entry.groupId || "-"] : []),
+        formatKey(entry.primaryKey),
+        entry.matchedKey ? formatKey(entry.matchedKey) : "-",
+        getCacheMatch(entry.primaryKey, entry.matchedKey),
+        entry.sizeInBytes !== undefined ? formatSize(entry.sizeInBytes) : "-",
+        entry.durationInMs !== undefined
+            ? formatDuration(entry.durationInMs)
+            : "-",
+        entry.outcome
+    ]);
+
+    try {
+        core.summary.addHeading(title, 3);
+        core.summary.addTable([header, ...rows]);
+        await core.summary.write();
+    } catch (error: unknown) {
+        utils.logWarning(
+            `Failed to write the job summary: ${(error as Error).message}`
+        );
+    }
+}
@@ -0,0 +1,96 @@
+import * as glob from "@actions/glob";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+const expressionPattern = /\{\{\s*(.*?)\s*\}\}/g;
+const hashFilesPattern = /^hashFiles\((.*)\)$/;
+const stringLiteralPattern = /\s*(?:'([^']*)'|"([^"]*)")\s*(?:,|$)/y;
+
+export function isKeyTemplate(key: string): boolean {
+    return /\{\{.*?\}\}/.test(key);
+}
+
+// Mirrors the `hashFiles` expression function of the runner: every matched file inside the
+// workspace is hashed individually, and the result is the hash of those hashes.
+export async function hashFiles(patterns: string[]): Promise<string> {
+    const workspace = process.env["GITHUB_WORKSPACE"] || process.cwd();
+    const globber = await glob.create(patterns.join("\n"));
+    const result = crypto.createHash("sha256");
+    let hasMatch = false;
+
+    for await (const file of globber.globGenerator()) {
+        if (!file.startsWith(`${workspace}${path.sep}`)) {
+            continue;
+        }
+        if (fs.statSync(file).isDirectory()) {
+            continue;
+        }
+
+        const hash = crypto.createHash("sha256");
+        for await (const chunk of fs.createReadStream(file)) {
+            hash.update(chunk);
+        }
+        result.update(hash.digest());
+        hasMatch = true;
+    }
+
+    return hasMatch ? result.digest("hex") : "";
+}
+
+function parseStringArguments(args: string): string[] {
+    const values: string[] = [];
+    stringLiteralPattern.lastIndex = 0;
+    while (stringLiteralPattern.lastIndex < args.length) {
+        const match = stringLiteralPattern.exec(args);
+        if (!match) {
+            throw new Error(
+                `Key Template Error: hashFiles only accepts quoted string arguments, got (${args}).`
+            );
+        }
+        values.push(match[1] ?? match[2]);
+    }
+    return values;
+}
+
+async function evaluateExpression(expression: string): Promise<string> {
+    const hashFilesMatch = hashFilesPattern.exec(expression);
+    if (hashFilesMatch) {
+        const patterns = parseStringArguments(hashFilesMatch[1]);
+        if (patterns.length === 0) {
+            throw new Error(
+                `Key Template Error: hashFiles requires at least one pattern.`
+            );
+        }
+        return hashFiles(patterns);
+    }
+
+    const [context, ...rest] = expression.split(".");
+    const name = rest.join(".");
+    if (name && /^[\w-]+$/.test(name)) {
+        switch (context) {
+            case "env":
+                return process.env[name] ?? "";
+            case "runner":
+            case "github":
+                return process.env[`${context}_${name}`.toUpperCase()] ?? "";
+        }
+    }
+
+    throw new Error(
+        `Key Template Error: Unsupported expression {{ ${expression} }}.`
+    );
+}
+
+// Evaluates `{{ expression }}` placeholders in a key; keys without placeholders are returned as-is.
+export async function evaluateKey(key: string): Promise<string> {
+    if (!isKeyTemplate(key)) {
+        return key;
+    }
+
+    const values: string[] = [];
+    for (const match of key.matchAll(expressionPattern)) {
+        values.push(await evaluateExpression(match[1]));
+    }
+    return key.replace(expressionPattern, () => values.shift() as string);
+}
@@ -0,0 +1,48 @@
+import * as core from "@actions/core";
+
+import { Inputs } from "../constants";
+
+// How warnings are reported: as annotations in the run, as plain log lines, only in the debug
+// log, or as errors failing the step.
+export enum WarningLevel {
+    Annotate = "annotate",
+    Info = "info",
+    Silent = "silent",
+    Error = "error"
+}
+
+// An invalid level falls back to annotations, so the warnings it would report are not lost
+export function getWarningLevel(): WarningLevel {
+    const value = core.getInput(Inputs.WarningLevel).toLowerCase();
+    if (!value) {
+        return WarningLevel.Annotate;
+    }
+    if (!Object.values(WarningLevel).includes(value as WarningLevel)) {
+        core.warning(
+            `Input Validation Error: ${
+                Inputs.WarningLevel
+            } must be one of ${Object.values(WarningLevel).join(
+                ", "
+            )}, got ${value}. Warnings are reported as annotations.`
+        );
+        return WarningLevel.Annotate;
+    }
+    return value as WarningLevel;
+}
+
+export function logWarning(message: string): void {
+    switch (getWarningLevel()) {
+        case WarningLevel.Annotate:
+            core.warning(message);
+            break;
+        case WarningLevel.Info:
+            core.info(`[warning]${message}`);
+            break;
+        case WarningLevel.Silent:
+            core.debug(`[warning]${message}`);
+            break;
+        case WarningLevel.Error:
+            core.setFailed(message);
+            break;
+    }
+}
@@ -0,0 +1,230 @@
+import * as core from "@actions/core";
+import * as glob from "@actions/glob";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+import { Inputs } from "../constants";
+import * as utils from "./actionUtils";
+
+export enum ManifestMode {
+    Off = "off",
+    Metadata = "metadata",
+    Content = "content"
+}
+
+export interface ManifestEntry {
+    path: string;
+    size: number;
+    mtime?: number;
+    sha256?: string;
+}
+
+// What the restore step does with files that do not match the checksum manifest
+export enum ChecksumMismatchAction {
+    Warn = "warn",
+    Fail = "fail",
+    Delete = "delete"
+}
+
+// The checksum manifest is archived with the cached files, under a path relative to the
+// workspace so the cache version does not depend on where the workspace is.
+const checksumManifestDir = ".cache-checksums";
+
+export function getManifestMode(): ManifestMode {
+    const value = core.getInput(Inputs.UnchangedCheck) || ManifestMode.Off;
+    if (!Object.values(ManifestMode).includes(value as ManifestMode)) {
+        throw new Error(
+            `Input Validation Error: ${
+                Inputs.UnchangedCheck
+            } must be one of ${Object.values(ManifestMode).join(", ")}.`
+        );
+    }
+    return value as ManifestMode;
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash("sha256");
+    for await (const chunk of fs.createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+    return hash.digest("hex");
+}
+
+// Lists every file matched by the cache paths, relative to the workspace and in a stable order.
+// `Metadata` records sizes and modification times, `Content` hashes every file.
+export async function buildManifest(
+    cachePaths: string[],
+    mode: ManifestMode
+): Promise<ManifestEntry[]> {
+    const workspace = process.env["GITHUB_WORKSPACE"] || process.cwd();
+    const globber = await glob.create(cachePaths.join("\n"));
+
+    const entries: ManifestEntry[] = [];
+    for await (const file of globber.globGenerator()) {
+        const stats = fs.lstatSync(file);
+        if (stats.isDirectory()) {
+            continue;
+        }
+
+        const entry: ManifestEntry = {
+            path: path.relative(workspace, file).split(path.sep).join("/"),
+            size: stats.size
+        };
+        if (mode === ManifestMode.Content) {
+            entry.sha256 = stats.isFile() ? await hashFile(file) : "";
+        } else {
+            entry.mtime = stats.mtimeMs;
+        }
+        entries.push(entry);
+    }
+
+    return entries.sort((a, b) =>
+        a.path < b.path ? -1 : a.path > b.path ? 1 : 0
+    );
+}
+
+export function getManifestDigest(entries: ManifestEntry[]): string {
+    const hash = crypto.createHash("sha256");
+    for (const entry of entries) {
+        hash.update(
+            `${entry.path}\0${entry.size}\0${entry.mtime ?? ""}\0${
+                entry.sha256 ?? ""
+            }\n`
+        );
+    }
+    return hash.digest("hex");
+}
+
+export async function computeManifestDigest(
+    cachePaths: string[],
+    mode: ManifestMode
+): Promise<string> {
+    return getManifestDigest(await buildManifest(cachePaths, mode));
+}
+
+export function getChecksumMismatchAction(): ChecksumMismatchAction {
+    const value =
+        core.getInput(Inputs.ChecksumMismatch) || ChecksumMismatchAction.Warn;
+    if (
+        !Object.values(ChecksumMismatchAction).includes(
+            value as ChecksumMismatchAction
+        )
+    ) {
+        throw new Error(
+            `Input Validation Error: ${
+                Inputs.ChecksumMismatch
+            } must be one of ${Object.values(ChecksumMismatchAction).join(
+                ", "
+            )}.`
+        );
+    }
+    return value as ChecksumMismatchAction;
+}
+
+export function getChecksumManifestPath(groupId: string): string {
+    return `${checksumManifestDir}/${groupId || "cache"}.json`;
+}
+
+// The cache paths, without the files matched by the `exclude` patterns, which are left out of the
+// archive by `withTarExclusions`
+export function applyExclusions(cachePaths: string[]): string[] {
+    const exclusions = utils
+        .getInputAsArray(Inputs.Exclude)
+        .map(pattern => (pattern.startsWith("!") ? pattern : `!${pattern}`));
+    return [...cachePaths, ...exclusions];
+}
+
+// The paths to archive: the cache paths without exclusions, and the checksum manifest when
+// `checksums` is set. Saving and restoring must agree on them, as they are part of the cache
+// version. The manifest goes first, so an archive truncated at the end still has it, and the
+// files it lost are found missing.
+export function getArchivePaths(
+    cachePaths: string[],
+    groupId: string
+): string[] {
+    const archivePaths = applyExclusions(cachePaths);
+    return core.getInput(Inputs.Checksums).toLowerCase() === "true"
+        ? [getChecksumManifestPath(groupId), ...archivePaths]
+        : archivePaths;
+}
+
+// Sums the sizes of the files by directory, keeping the first two directory levels below the
+// workspace, or below the common ancestor of paths outside of it, e.g. `node_modules/typescript`.
+export function getLargestDirectories(
+    entries: ManifestEntry[],
+    count: number
+): { path: string; size: number }[] {
+    const sizes = new Map<string, number>();
+    for (const entry of entries) {
+        const segments = path.posix.dirname(entry.path).split("/");
+        const parents = segments.findIndex(segment => segment !== "..");
+        const directory = segments
+            .slice(0, (parents < 0 ? segments.length : parents) + 2)
+            .join("/");
+        sizes.set(directory, (sizes.get(directory) ?? 0) + entry.size);
+    }
+    return [...sizes.entries()]
+        .map(([directory, size]) => ({ path: directory, size }))
+        .sort((a, b) => b.size - a.size)
+        .slice(0, count);
+}
+
+export async function writeChecksumManifest(
+    cachePaths: string[],
+    groupId: string
+): Promise<void> {
+    const manifestPath = path.resolve(getChecksumManifestPath(groupId));
+    const entries = await buildManifest(cachePaths, ManifestMode.Content);
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(manifestPath, JSON.stringify(entries));
+}
+
+export function removeChecksumManifest(groupId: string): void {
+    const manifestPath = path.resolve(getChecksumManifestPath(groupId));
+    fs.rmSync(manifestPath, { force: true });
+    const manifestDir = path.dirname(manifestPath);
+    if (
+        fs.existsSync(manifestDir) &&
+        fs.readdirSync(manifestDir).length === 0
+    ) {
+        fs.rmdirSync(manifestDir);
+    }
+}
+
+export function removeWorkspaceFiles(filePaths: string[]): void {
+    const workspace = process.env["GITHUB_WORKSPACE"] || process.cwd();
+    for (const filePath of filePaths) {
+        fs.rmSync(path.join(workspace, filePath), { force: true });
+    }
+}
+
+// Checks the restored files against the checksum manifest restored with them, and returns the
+// paths, relative to the workspace, of files that are missing or differ. Returns `undefined`
+// when the archive has no manifest.
+export async function verifyChecksumManifest(
+    groupId: string
+): Promise<string[] | undefined> {
+    const manifestPath = path.resolve(getChecksumManifestPath(groupId));
+    if (!fs.existsSync(manifestPath)) {
+        return undefined;
+    }
+    const entries: ManifestEntry[] = JSON.parse(
+        fs.readFileSync(manifestPath, "utf8")
+    );
+
+    const workspace = process.env["GITHUB_WORKSPACE"] || process.cwd();
+    const mismatches: string[] = [];
+    for (const entry of entries) {
+        const file = path.join(workspace, entry.path);
+        const stats = fs.lstatSync(file, { throwIfNoEntry: false });
+        if (
+            !stats ||
+            stats.size !== entry.size ||
+            (stats.isFile() && (await hashFile(file)) !== entry.sha256)
+        ) {
+            mismatches.push(entry.path);
+        }
+    }
+    return mismatches;
+}
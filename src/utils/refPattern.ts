@@ -0,0 +1,29 @@
+// Ref patterns are matched against full refs like `refs/heads/main` or `refs/pull/12/merge`.
+// `*` matches any characters except `/`, `**` matches any characters including `/`, and a
+// pattern starting with `!` excludes refs matched by the patterns before it, or by `**` when
+// it is the first pattern.
+
+function toRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split("**")
+        .map(part =>
+            part
+                .split("*")
+                .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+                .join("[^/]*")
+        )
+        .join(".*");
+    return new RegExp(`^${source}$`);
+}
+
+export function matchesRefPatterns(ref: string, patterns: string[]): boolean {
+    let matched = patterns.length > 0 && patterns[0].startsWith("!");
+    for (const pattern of patterns) {
+        if (pattern.startsWith("!")) {
+            matched = matched && !toRegExp(pattern.slice(1)).test(ref);
+        } else {
+            matched = matched || toRegExp(pattern).test(ref);
+        }
+    }
+    return matched;
+}
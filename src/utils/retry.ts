@@ -0,0 +1,108 @@
+import * as core from "@actions/core";
+
+import { Inputs } from "../constants";
+import { getAbortSignal, sleep } from "./timeout";
+import { parseDuration } from "./units";
+
+export interface RetryPolicy {
+    retries: number;
+    backoffInMs: number;
+}
+
+// Errors of the network connection, as reported by node in `code`, that a new attempt may not hit
+const transientErrorCodes = [
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ECONNABORTED",
+    "ETIMEDOUT",
+    "EPIPE",
+    "EAI_AGAIN"
+];
+
+// Descriptions of the operations whose attempts are reported by the `*-attempts` outputs
+export const RestoreOperation = "Restoring the cache";
+export const SaveOperation = "Saving the cache";
+
+// Calls made by this step by the description of the operation, counting every attempt
+const attemptCounts = new Map<string, number>();
+
+export function getRetryPolicy(): RetryPolicy {
+    const retriesInput = core.getInput(Inputs.Retries);
+    const retries = retriesInput ? parseInt(retriesInput) : 0;
+    if (isNaN(retries) || retries < 0) {
+        throw new Error(
+            `Input Validation Error: ${Inputs.Retries} must be a number of retries, got ${retriesInput}.`
+        );
+    }
+    const backoffInput = core.getInput(Inputs.RetryBackoff) || "1s";
+    return {
+        retries,
+        backoffInMs: parseDuration(Inputs.RetryBackoff, backoffInput)
+    };
+}
+
+// Only counts the attempts of `description`, so other calls made in between, like listings and
+// deletes, do not add to them
+export function getAttemptCount(description: string): number {
+    return attemptCounts.get(description) ?? 0;
+}
+
+// Rate limits, server errors and dropped connections are transient. Errors without a status or
+// code, like reserve conflicts and invalid keys, and client errors would fail again.
+export function isTransientError(error: unknown): boolean {
+    const { code, status, statusCode } = error as {
+        code?: string;
+        status?: number; // Octokit
+        statusCode?: number; // @actions/http-client
+    };
+    const httpStatus = status ?? statusCode;
+    if (typeof httpStatus === "number") {
+        return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+    }
+    return code !== undefined && transientErrorCodes.includes(code);
+}
+
+// The backoff doubles with every retry, and up to half of it is added at random, so jobs that
+// failed at the same time do not all retry at the same time.
+export function getBackoffDelay(
+    backoffInMs: number,
+    retry: number,
+    random: () => number = Math.random
+): number {
+    const delay = backoffInMs * 2 ** (retry - 1);
+    return Math.round(delay + (delay / 2) * random());
+}
+
+// Runs `operation`, and runs it again on transient errors as many times as the `retries` input
+// allows, unless the step timed out. The last error is thrown when every attempt failed.
+export async function withRetries<T>(
+    description: string,
+    operation: () => Promise<T>
+): Promise<T> {
+    const { retries, backoffInMs } = getRetryPolicy();
+    const signal = getAbortSignal();
+    for (let attempt = 1; ; attempt++) {
+        attemptCounts.set(description, getAttemptCount(description) + 1);
+        try {
+            return await operation();
+        } catch (error: unknown) {
+            if (
+                attempt > retries ||
+                !isTransientError(error) ||
+                signal.aborted
+            ) {
+                throw error;
+            }
+            const delay = getBackoffDelay(backoffInMs, attempt);
+            core.info(
+                `${description} failed on attempt ${attempt} of ${
+                    retries + 1
+                }, retrying in ${delay} ms: ${(error as Error).message}`
+            );
+            await sleep(delay);
+            if (signal.aborted) {
+                throw error;
+            }
+        }
+    }
+}
@@ -1,6 +1,6 @@
 /* istanbul ignore file */
 
-import { rest } from "msw";
+import { rest, RestHandler, RestRequest } from "msw";
 import { setupServer } from "msw/node";
 
 import { Inputs } from "../constants";
@@ -11,10 +11,13 @@ export const wrongRefCacheKey =
     "Linux-latest-node-bb828da54c148048dd17899ba9fda624811cfb43";
 export const failureCacheKey =
     "Windows-node-bb828da54c148048dd17899ba9fda624811cfb43";
+export const prefixCacheKey = "Linux-node";
 export const passThroughCacheKey =
     "macOS-node-bb828da54c148048dd17899ba9fda624811cfb43";
 const successCacheId = 1337;
 const failureCacheId = 69;
+export const successRunId = 1234;
+export const failureRunId = 5678;
 
 // See: https://github.com/actions/toolkit/blob/master/packages/core/src/core.ts#L67
 function getInputName(name: string): string {
@@ -60,8 +63,49 @@ export function clearInputs(): void {
     delete process.env[getInputName(Inputs.UploadChunkSize)];
     delete process.env[getInputName(Inputs.EnableCrossOsArchive)];
     delete process.env[getInputName(Inputs.FailOnCacheMiss)];
+    delete process.env[getInputName(Inputs.FailOnCacheOlderThan)];
     delete process.env[getInputName(Inputs.LookupOnly)];
     delete process.env[getInputName(Inputs.RefreshCache)];
+    delete process.env[getInputName(Inputs.Caches)];
+    delete process.env[getInputName(Inputs.RecomputeKey)];
+    delete process.env[getInputName(Inputs.UnchangedCheck)];
+    delete process.env[getInputName(Inputs.Backend)];
+    delete process.env[getInputName(Inputs.LocalPath)];
+    delete process.env[getInputName(Inputs.S3Bucket)];
+    delete process.env[getInputName(Inputs.S3Prefix)];
+    delete process.env[getInputName(Inputs.S3Endpoint)];
+    delete process.env[getInputName(Inputs.S3Region)];
+    delete process.env[getInputName(Inputs.S3ForcePathStyle)];
+    delete process.env[getInputName(Inputs.S3AccessKeyId)];
+    delete process.env[getInputName(Inputs.S3SecretAccessKey)];
+    delete process.env[getInputName(Inputs.S3SessionToken)];
+    delete process.env[getInputName(Inputs.Token)];
+    delete process.env[getInputName(Inputs.FailOnRefreshError)];
+    delete process.env[getInputName(Inputs.KeyPrefix)];
+    delete process.env[getInputName(Inputs.Ref)];
+    delete process.env[getInputName(Inputs.MaxAge)];
+    delete process.env[getInputName(Inputs.MaxEntries)];
+    delete process.env[getInputName(Inputs.MaxTotalSize)];
+    delete process.env[getInputName(Inputs.DryRun)];
+    delete process.env[getInputName(Inputs.JobSummary)];
+    delete process.env[getInputName(Inputs.CacheHitFalseOnMiss)];
+    delete process.env[getInputName(Inputs.Checksums)];
+    delete process.env[getInputName(Inputs.ChecksumMismatch)];
+    delete process.env[getInputName(Inputs.Exclude)];
+    delete process.env[getInputName(Inputs.MaxSize)];
+    delete process.env[getInputName(Inputs.FailOnMaxSize)];
+    delete process.env[getInputName(Inputs.SaveOnRefs)];
+    delete process.env[getInputName(Inputs.SkipSaveOnRefs)];
+    delete process.env[getInputName(Inputs.SaveOn)];
+    delete process.env[getInputName(Inputs.RestoreRefs)];
+    delete process.env[getInputName(Inputs.DiskCachePath)];
+    delete process.env[getInputName(Inputs.DiskCacheMaxSize)];
+    delete process.env[getInputName(Inputs.EventLog)];
+    delete process.env[getInputName(Inputs.WarningLevel)];
+    delete process.env[getInputName(Inputs.FailOnSaveError)];
+    delete process.env[getInputName(Inputs.Retries)];
+    delete process.env[getInputName(Inputs.RetryBackoff)];
+    delete process.env[getInputName(Inputs.Timeout)];
 }
 
 export const mockServer = setupServer(
@@ -143,7 +187,34 @@ export const mockServer = setupServer(
                         actions_caches: []
                     })
                 );
-            } else if (key === successCacheKey || key === failureCacheKey) {
+            }
+            // The key is matched as a prefix, so longer keys are listed along with an exact match.
+            else if (key === prefixCacheKey) {
+                return res(
+                    ctx.status(200),
+                    ctx.json({
+                        total_count: 2,
+                        actions_caches: [prefixCacheKey, successCacheKey].map(
+                            (entryKey, index) => ({
+                                id: index === 0 ? successCacheId : 17,
+                                ref: ref,
+                                key: entryKey,
+                                version:
+                                    "93a0f912fdb70083e929c1bf564bca2050be1c4e0932f7f9e78465ddcfbcc8f6",
+                                last_accessed_at:
+                                    "2022-12-29T22:06:42.683333300Z",
+                                created_at: "2022-12-29T22:06:42.683333300Z",
+                                size_in_bytes: 6057793
+                            })
+                        )
+                    })
+                );
+            }
+            // Keys derived from these keys, like the staging keys of a refresh, can be deleted.
+            else if (
+                key.startsWith(successCacheKey) ||
+                key.startsWith(failureCacheKey)
+            ) {
                 return res(
                     ctx.status(200),
                     ctx.json({
@@ -151,9 +222,9 @@ export const mockServer = setupServer(
                         actions_caches: [
                             {
                                 id:
-                                    key === successCacheKey
-                                        ? successCacheId
-                                        : failureCacheId,
+                                    key === failureCacheKey
+                                        ? failureCacheId
+                                        : successCacheId,
                                 ref: ref,
                                 key: key,
                                 version:
@@ -169,5 +240,165 @@ export const mockServer = setupServer(
             }
             return req.passthrough();
         }
+    ),
+    // The job in progress on `runner-1` has a failed step in the failure run
+    rest.get(
+        "https://api.github.com/repos/owner/repo/actions/runs/:runId/attempts/:attempt/jobs",
+        (req, res, ctx) => {
+            const { runId } = req.params;
+            return res(
+                ctx.status(200),
+                ctx.json({
+                    total_count: 2,
+                    jobs: [
+                        {
+                            id: 1,
+                            status: "completed",
+                            conclusion: "failure",
+                            runner_name: "runner-2",
+                            steps: [{ number: 1, conclusion: "failure" }]
+                        },
+                        {
+                            id: 2,
+                            status: "in_progress",
+                            conclusion: null,
+                            runner_name: "runner-1",
+                            steps: [
+                                { number: 1, conclusion: "success" },
+                                {
+                                    number: 2,
+                                    conclusion:
+                                        parseInt(runId as string) ===
+                                        failureRunId
+                                            ? "failure"
+                                            : "skipped"
+                                },
+                                { number: 3, conclusion: null }
+                            ]
+                        }
+                    ]
+                })
+            );
+        }
     )
 );
+
+export interface MockS3Object {
+    body: Buffer;
+    lastModified: Date;
+    // User-defined metadata, sent as `x-amz-meta-*` headers
+    metadata?: Record<string, string>;
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+}
+
+// An in-memory stand-in for a path-style S3-compatible bucket, like MinIO, supporting the
+// requests made by the S3 backend. Listings are paginated by `pageSize` objects.
+export function createS3Handlers(
+    endpoint: string,
+    bucket: string,
+    objects = new Map<string, MockS3Object>(),
+    pageSize = 2
+): RestHandler[] {
+    const bucketUrl = `${endpoint}/${bucket}`;
+    const getObjectKey = (req: RestRequest): string =>
+        decodeURIComponent(req.url.pathname.slice(bucket.length + 2));
+
+    return [
+        rest.get(bucketUrl, (req, res, ctx) => {
+            const prefix = req.url.searchParams.get("prefix") ?? "";
+            const start = parseInt(
+                req.url.searchParams.get("continuation-token") ?? "0"
+            );
+            const keys = [...objects.keys()]
+                .filter(key => key.startsWith(prefix))
+                .sort();
+            const page = keys.slice(start, start + pageSize);
+            const isTruncated = start + pageSize < keys.length;
+            const contents = page
+                .map(key => {
+                    const object = objects.get(key) as MockS3Object;
+                    return `<Contents><Key>${escapeXml(
+                        key
+                    )}</Key><LastModified>${object.lastModified.toISOString()}</LastModified><Size>${
+                        object.body.length
+                    }</Size></Contents>`;
+                })
+                .join("");
+            return res(
+                ctx.status(200),
+                ctx.set("Content-Type", "application/xml"),
+                ctx.body(
+                    `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${bucket}</Name><Prefix>${escapeXml(
+                        prefix
+                    )}</Prefix><KeyCount>${
+                        page.length
+                    }</KeyCount><IsTruncated>${isTruncated}</IsTruncated>${
+                        isTruncated
+                            ? `<NextContinuationToken>${
+                                  start + pageSize
+                              }</NextContinuationToken>`
+                            : ""
+                    }${contents}</ListBucketResult>`
+                )
+            );
+        }),
+        rest.head(`${bucketUrl}/*`, (req, res, ctx) => {
+            const object = objects.get(getObjectKey(req));
+            return object
+                ? res(
+                      ctx.status(200),
+                      ctx.set("Content-Length", `${object.body.length}`),
+                      ctx.set(
+                          "Last-Modified",
+                          object.lastModified.toUTCString()
+                      ),
+                      ctx.set(
+                          Object.fromEntries(
+                              Object.entries(object.metadata ?? {}).map(
+                                  ([name, value]) => [
+                                      `x-amz-meta-${name}`,
+                                      value
+                                  ]
+                              )
+                          )
+                      )
+                  )
+                : res(ctx.status(404));
+        }),
+        rest.get(`${bucketUrl}/*`, (req, res, ctx) => {
+            const object = objects.get(getObjectKey(req));
+            return object
+                ? res(ctx.status(200), ctx.body(object.body))
+                : res(
+                      ctx.status(404),
+                      ctx.body(
+                          "<Error><Code>NoSuchKey</Code><Message>Not Found</Message></Error>"
+                      )
+                  );
+        }),
+        rest.put(`${bucketUrl}/*`, async (req, res, ctx) => {
+            const metadata: Record<string, string> = {};
+            req.headers.forEach((value, name) => {
+                if (name.startsWith("x-amz-meta-")) {
+                    metadata[name.slice("x-amz-meta-".length)] = value;
+                }
+            });
+            objects.set(getObjectKey(req), {
+                body: Buffer.from(await req.arrayBuffer()),
+                lastModified: new Date(),
+                metadata
+            });
+            return res(ctx.status(200), ctx.set("ETag", '"etag"'));
+        }),
+        rest.delete(`${bucketUrl}/*`, (req, res, ctx) => {
+            objects.delete(getObjectKey(req));
+            return res(ctx.status(204));
+        })
+    ];
+}
@@ -0,0 +1,73 @@
+import * as core from "@actions/core";
+
+import { Inputs } from "../constants";
+import { parseDuration } from "./units";
+
+// Aborted once the `timeout` of the step elapses, so the operations still running are abandoned
+let controller = new AbortController();
+let timeoutInMs: number | undefined;
+
+// A plain number is a number of minutes, like `timeout-minutes` of a step
+export function getTimeout(): number | undefined {
+    const value = core.getInput(Inputs.Timeout);
+    return value ? parseDuration(Inputs.Timeout, value, "m") : undefined;
+}
+
+export function getAbortSignal(): AbortSignal {
+    return controller.signal;
+}
+
+// Starts the timeout of the step, and returns a function that stops it once the step is done
+export function startTimeout(timeout: number): () => void {
+    const stepController = new AbortController();
+    controller = stepController;
+    timeoutInMs = timeout;
+    const timer = setTimeout(() => stepController.abort(), timeout);
+    return () => {
+        clearTimeout(timer);
+        controller = new AbortController();
+        timeoutInMs = undefined;
+    };
+}
+
+// Resolves after `delay`, or as soon as the step times out
+export function sleep(delay: number): Promise<void> {
+    const signal = controller.signal;
+    return new Promise(resolve => {
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort);
+            resolve();
+        }, delay);
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+// Runs `operation` until the step times out, and then stops waiting for it and returns the result
+// of `onTimeout` instead. Operations that cannot be cancelled, like downloads by @actions/cache,
+// keep running in the background until the step exits. Once the step timed out, operations are
+// not started anymore.
+export async function untilTimeout<T>(
+    operation: () => Promise<T>,
+    onTimeout: (timeout: number) => T
+): Promise<T> {
+    const signal = controller.signal;
+    if (signal.aborted) {
+        return onTimeout(timeoutInMs ?? 0);
+    }
+    let onAbort: (() => void) | undefined;
+    const timedOut = new Promise<T>(resolve => {
+        onAbort = () => resolve(onTimeout(timeoutInMs ?? 0));
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
+    try {
+        return await Promise.race([operation(), timedOut]);
+    } finally {
+        if (onAbort) {
+            signal.removeEventListener("abort", onAbort);
+        }
+    }
+}
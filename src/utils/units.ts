@@ -0,0 +1,49 @@
+const durationUnits: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+};
+
+const sizeUnits: Record<string, number> = {
+    b: 1,
+    kb: 1024,
+    mb: 1024 ** 2,
+    gb: 1024 ** 3,
+    tb: 1024 ** 4
+};
+
+// Parses durations like `90s`, `30m`, `12h`, `7d` or `2w` into milliseconds.
+// A plain number is a number of `defaultUnit`.
+export function parseDuration(
+    name: string,
+    value: string,
+    defaultUnit = "s"
+): number {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhdw]?)$/i);
+    if (!match) {
+        throw new Error(
+            `Input Validation Error: ${name} must be a duration like 30m, 12h or 7d, got ${value}.`
+        );
+    }
+    const unit = (match[2] || defaultUnit).toLowerCase();
+    return Math.round(parseFloat(match[1]) * durationUnits[unit]);
+}
+
+// Parses sizes like `512MB`, `10GB` or `1.5TB` into bytes, using binary units.
+// A plain number is a number of bytes.
+export function parseSize(name: string, value: string): number {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/i);
+    if (!match) {
+        throw new Error(
+            `Input Validation Error: ${name} must be a size like 500MB or 10GB, got ${value}.`
+        );
+    }
+    const unit = (match[2] || "b").toLowerCase();
+    return Math.round(parseFloat(match[1]) * sizeUnits[unit]);
+}
+
+export function formatSize(sizeInBytes: number): string {
+    return `~${Math.round(sizeInBytes / (1024 * 1024))} MB (${sizeInBytes} B)`;
+}